@@ -0,0 +1,81 @@
+import { base64urlDecode, base64urlEncode } from "./iron-webcrypto/utils";
+import type { MaybeCookie } from "./utils";
+
+// turns values into cookie values and back, decode throws for values it cannot read
+export type Codec<T> = {
+  encode: (value: T) => string;
+  decode: (value: string) => T;
+};
+
+export type CodecOptions<T> = {
+  codec: Codec<T>;
+  // called instead of throwing for values that are authentic but cannot be decoded
+  onDecodeError?: (error: unknown, name: string) => void;
+};
+
+export function createCodec<T>(options: {
+  encode: (value: T) => string;
+  decode: (value: string) => unknown;
+  // checks decoded values, which are rejected unless it returns true
+  validate?: (value: unknown) => value is T;
+}): Codec<T> {
+  const { encode, decode, validate } = options;
+  return {
+    encode,
+    decode: (value) => {
+      const decoded = decode(value);
+      if (validate && !validate(decoded)) {
+        throw new Error("Invalid cookie value");
+      }
+      return decoded as T;
+    },
+  };
+}
+
+export function jsonCodec<T = unknown>(
+  validate?: (value: unknown) => value is T,
+): Codec<T> {
+  return createCodec({
+    encode: (value) => JSON.stringify(value),
+    decode: (value) => JSON.parse(value),
+    validate,
+  });
+}
+
+export const base64urlCodec: Codec<Uint8Array> = createCodec({
+  encode: (value: Uint8Array) => base64urlEncode(value),
+  decode: (value) => base64urlDecode(value),
+});
+
+export function decodeCookie<T>(
+  name: string,
+  value: string,
+  opt: CodecOptions<T>,
+): { value: T } | undefined {
+  try {
+    return { value: opt.codec.decode(value) };
+  } catch (e) {
+    opt.onDecodeError?.(e, name);
+    return undefined;
+  }
+}
+
+// decodes the values of signed and sealed cookies, rejecting the ones that cannot be decoded
+export function decodeCookies<T>(
+  cookies: Record<string, MaybeCookie>,
+  opt: CodecOptions<T>,
+): Record<string, T | false> {
+  const decodedCookies: Record<string, T | false> = {};
+  for (const [name, value] of Object.entries(cookies)) {
+    const decoded = value !== false && decodeCookie(name, value, opt);
+    decodedCookies[name] = decoded ? decoded.value : false;
+  }
+  return decodedCookies;
+}
+
+export function encodeCookie<T>(
+  value: T,
+  opt?: Partial<CodecOptions<T>>,
+): string {
+  return opt?.codec ? opt.codec.encode(value) : (value as string);
+}
@@ -0,0 +1,524 @@
+import {
+  CookieDefinition,
+  CookieDefinitionOptions,
+  CookieOptions,
+  DeleteCookieOptions,
+  GetCookieOptions,
+  GetSealedCookieOptions,
+  GetSignedCookieOptions,
+  MaybeCookie,
+  SealPassword,
+  SealedCookieOptions,
+  SetCookie,
+  SignedCookieOptions,
+  SigningSecret,
+  Unsealed,
+  Verified,
+  chunkCookie,
+  parse,
+  parseAll,
+  parseChunks,
+  parseSealed,
+  parseSealedWithInfo,
+  parseSetCookie,
+  parseSigned,
+  parseSignedWithInfo,
+  prefixCookieName,
+  serialize,
+  serializeSealed,
+  serializeSigned,
+  unprefixCookies,
+} from "./utils";
+import {
+  Codec,
+  CodecOptions,
+  createCodec,
+  decodeCookie,
+  decodeCookies,
+  encodeCookie,
+} from "./codec";
+
+export function getCookie<T>(
+  headers: Headers,
+  key: string,
+  opt: GetCookieOptions & CodecOptions<T>,
+): T | undefined;
+export function getCookie(
+  headers: Headers,
+  key: string,
+  opt?: GetCookieOptions,
+): string | undefined;
+export function getCookie<T>(
+  headers: Headers,
+  key: undefined,
+  opt: GetCookieOptions & CodecOptions<T>,
+): Record<string, T>;
+export function getCookie(
+  headers: Headers,
+  key?: undefined,
+  opt?: GetCookieOptions,
+): Record<string, string>;
+export function getCookie<T>(
+  headers: Headers,
+  key?: string,
+  opt?: GetCookieOptions & Partial<CodecOptions<T>>,
+) {
+  const cookie = headers.get("Cookie");
+  if (typeof key === "string") {
+    key = prefixCookieName(key, opt?.prefix);
+    if (!cookie) {
+      return undefined;
+    }
+    const obj = parse(cookie, key, opt);
+    const value = obj[key];
+    if (opt?.codec && value !== undefined) {
+      const { codec, onDecodeError } = opt;
+      return decodeCookie(key, value, { codec, onDecodeError })?.value;
+    }
+    return value;
+  }
+  if (!cookie) {
+    return {};
+  }
+  const obj = unprefixCookies(parse(cookie, undefined, opt), opt?.prefix);
+  if (opt?.codec) {
+    const { codec, onDecodeError } = opt;
+    const decodedObj: Record<string, T> = {};
+    for (const [name, value] of Object.entries(obj)) {
+      const decoded = decodeCookie(name, value, { codec, onDecodeError });
+      if (decoded) {
+        decodedObj[name] = decoded.value;
+      }
+    }
+    return decodedObj;
+  }
+
+  return obj as any;
+}
+
+export function getAllCookies(
+  headers: Headers,
+  name: string,
+  opt?: GetCookieOptions,
+): string[] {
+  const cookie = headers.get("Cookie");
+  if (!cookie) {
+    return [];
+  }
+  const prefixedName = prefixCookieName(name, opt?.prefix);
+  return parseAll(cookie, prefixedName, opt)[prefixedName] ?? [];
+}
+
+interface GetSignedCookie {
+  <T>(
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key: string,
+    opt: GetSignedCookieOptions & CodecOptions<T>,
+  ): Promise<T | false>;
+  (
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key: string,
+    opt?: GetSignedCookieOptions,
+  ): Promise<MaybeCookie>;
+  <T>(
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key: undefined,
+    opt: GetSignedCookieOptions & CodecOptions<T>,
+  ): Promise<Record<string, T | false>>;
+  (
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key?: undefined,
+    opt?: GetSignedCookieOptions,
+  ): Promise<Record<string, MaybeCookie>>;
+}
+
+export const getSignedCookie: GetSignedCookie = async (
+  headers: Headers,
+  secret: SigningSecret | SigningSecret[],
+  key?: string,
+  opt?: GetSignedCookieOptions & Partial<CodecOptions<unknown>>,
+): Promise<any> => {
+  const cookie = headers.get("Cookie");
+  if (typeof key === "string") {
+    key = prefixCookieName(key, opt?.prefix);
+    if (!cookie) {
+      return false;
+    }
+    const obj = await parseSigned(cookie, secret, key, opt);
+    const value = obj[key] ?? false;
+    if (opt?.codec && value !== false) {
+      const { codec, onDecodeError } = opt;
+      return decodeCookie(key, value, { codec, onDecodeError })?.value ?? false;
+    }
+    return value;
+  }
+  if (!cookie) {
+    return {};
+  }
+  const obj = unprefixCookies(
+    await parseSigned(cookie, secret, undefined, opt),
+    opt?.prefix,
+  );
+  if (opt?.codec) {
+    const { codec, onDecodeError } = opt;
+    return decodeCookies(obj, { codec, onDecodeError });
+  }
+
+  return obj as any;
+};
+
+interface GetSignedCookieInfo {
+  (
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key: string,
+    opt?: GetSignedCookieOptions,
+  ): Promise<Verified | false>;
+  (
+    headers: Headers,
+    secret: SigningSecret | SigningSecret[],
+    key?: undefined,
+    opt?: GetSignedCookieOptions,
+  ): Promise<Record<string, Verified | false>>;
+}
+
+export const getSignedCookieInfo: GetSignedCookieInfo = async (
+  headers,
+  secret,
+  key?,
+  opt?,
+) => {
+  const cookie = headers.get("Cookie");
+  if (typeof key === "string") {
+    key = prefixCookieName(key, opt?.prefix);
+    if (!cookie) {
+      return false;
+    }
+    const obj = await parseSignedWithInfo(cookie, secret, key, opt);
+    return obj[key] ?? false;
+  }
+  if (!cookie) {
+    return {};
+  }
+  const obj = unprefixCookies(
+    await parseSignedWithInfo(cookie, secret, undefined, opt),
+    opt?.prefix,
+  );
+
+  return obj as any;
+};
+
+export function getSetCookies(headers: Headers, name?: string): SetCookie[] {
+  const setCookies: SetCookie[] = [];
+  for (const setCookie of headers.getSetCookie()) {
+    const parsed = parseSetCookie(setCookie);
+    if (parsed && (!name || parsed.name === name)) {
+      setCookies.push(parsed);
+    }
+  }
+  return setCookies;
+}
+
+function appendCookie(
+  headers: Headers,
+  cookie: string,
+  opt?: CookieOptions,
+): void {
+  const cookies = opt?.chunk
+    ? chunkCookie(cookie, { path: "/", ...opt })
+    : [cookie];
+  for (const cookie of cookies) {
+    headers.append("set-cookie", cookie);
+  }
+}
+
+export function setCookie<T>(
+  headers: Headers,
+  name: string,
+  value: T,
+  opt: CookieOptions & CodecOptions<T>,
+): void;
+export function setCookie(
+  headers: Headers,
+  name: string,
+  value: string,
+  opt?: CookieOptions,
+): void;
+export function setCookie<T>(
+  headers: Headers,
+  name: string,
+  value: T,
+  opt?: CookieOptions & Partial<CodecOptions<T>>,
+): void {
+  const cookie = serialize(name, encodeCookie(value, opt), {
+    path: "/",
+    ...opt,
+  });
+  appendCookie(headers, cookie, opt);
+}
+
+export async function setSignedCookie<T>(
+  headers: Headers,
+  value: T,
+  secret: SigningSecret | SigningSecret[],
+  name: string,
+  opt: SignedCookieOptions & CodecOptions<T>,
+): Promise<void>;
+export async function setSignedCookie(
+  headers: Headers,
+  value: string,
+  secret: SigningSecret | SigningSecret[],
+  name: string,
+  opt?: SignedCookieOptions,
+): Promise<void>;
+export async function setSignedCookie<T>(
+  headers: Headers,
+  value: T,
+  secret: SigningSecret | SigningSecret[],
+  name: string,
+  opt?: SignedCookieOptions & Partial<CodecOptions<T>>,
+): Promise<void> {
+  const cookie = await serializeSigned(name, encodeCookie(value, opt), secret, {
+    path: "/",
+    ...opt,
+  });
+  appendCookie(headers, cookie, opt);
+}
+
+export function deleteCookie(
+  headers: Headers,
+  name: string,
+  opt?: DeleteCookieOptions,
+): void {
+  const { requestHeaders, ...cookieOpt } = opt ?? {};
+  setCookie(headers, name, "", { ...cookieOpt, maxAge: 0 });
+
+  // also delete the chunks sent with the request, including leftovers of longer values
+  const cookie = requestHeaders?.get("Cookie");
+  const prefixedName = prefixCookieName(name, cookieOpt.prefix);
+  if (cookie) {
+    for (const chunkName of Object.keys(parseChunks(cookie, prefixedName))) {
+      if (
+        chunkName !== prefixedName &&
+        !(cookieOpt.chunk && chunkName === `${prefixedName}.0`)
+      ) {
+        // chunk names are already prefixed
+        setCookie(headers, chunkName, "", {
+          ...cookieOpt,
+          prefix: undefined,
+          chunk: false,
+          maxAge: 0,
+        });
+      }
+    }
+  }
+}
+
+export async function setSealedCookie<T>(
+  headers: Headers,
+  value: T,
+  secret: SealPassword,
+  name: string,
+  opt: SealedCookieOptions & CodecOptions<T>,
+): Promise<void>;
+export async function setSealedCookie(
+  headers: Headers,
+  value: string,
+  secret: SealPassword,
+  name: string,
+  opt?: SealedCookieOptions,
+): Promise<void>;
+export async function setSealedCookie<T>(
+  headers: Headers,
+  value: T,
+  secret: SealPassword,
+  name: string,
+  opt?: SealedCookieOptions & Partial<CodecOptions<T>>,
+): Promise<void> {
+  const cookie = await serializeSealed(name, encodeCookie(value, opt), secret, {
+    path: "/",
+    ...opt,
+  });
+  appendCookie(headers, cookie, opt);
+}
+
+interface GetSealedCookie {
+  <T>(
+    headers: Headers,
+    secret: SealPassword,
+    key: string,
+    opt: GetSealedCookieOptions & CodecOptions<T>,
+  ): Promise<T | false>;
+  (
+    headers: Headers,
+    secret: SealPassword,
+    key: string,
+    opt?: GetSealedCookieOptions,
+  ): Promise<MaybeCookie>;
+  <T>(
+    headers: Headers,
+    secret: SealPassword,
+    key: undefined,
+    opt: GetSealedCookieOptions & CodecOptions<T>,
+  ): Promise<Record<string, T | false>>;
+  (
+    headers: Headers,
+    secret: SealPassword,
+    key?: undefined,
+    opt?: GetSealedCookieOptions,
+  ): Promise<Record<string, MaybeCookie>>;
+}
+
+export const getSealedCookie: GetSealedCookie = async (
+  headers: Headers,
+  secret: SealPassword,
+  key?: string,
+  opt?: GetSealedCookieOptions & Partial<CodecOptions<unknown>>,
+): Promise<any> => {
+  const cookie = headers.get("Cookie");
+  if (typeof key === "string") {
+    key = prefixCookieName(key, opt?.prefix);
+    if (!cookie) {
+      return false;
+    }
+    const obj = await parseSealed(cookie, secret, key, opt);
+    const value = obj[key] ?? false;
+    if (opt?.codec && value !== false) {
+      const { codec, onDecodeError } = opt;
+      return decodeCookie(key, value, { codec, onDecodeError })?.value ?? false;
+    }
+    return value;
+  }
+  if (!cookie) {
+    return {};
+  }
+  const obj = unprefixCookies(
+    await parseSealed(cookie, secret, undefined, opt),
+    opt?.prefix,
+  );
+  if (opt?.codec) {
+    const { codec, onDecodeError } = opt;
+    return decodeCookies(obj, { codec, onDecodeError });
+  }
+
+  return obj as any;
+};
+
+interface GetSealedCookieInfo {
+  (
+    headers: Headers,
+    secret: SealPassword,
+    key: string,
+    opt?: GetSealedCookieOptions,
+  ): Promise<Unsealed | false>;
+  (
+    headers: Headers,
+    secret: SealPassword,
+    key?: undefined,
+    opt?: GetSealedCookieOptions,
+  ): Promise<Record<string, Unsealed | false>>;
+}
+
+export const getSealedCookieInfo: GetSealedCookieInfo = async (
+  headers,
+  secret,
+  key?,
+  opt?,
+) => {
+  const cookie = headers.get("Cookie");
+  if (typeof key === "string") {
+    key = prefixCookieName(key, opt?.prefix);
+    if (!cookie) {
+      return false;
+    }
+    const obj = await parseSealedWithInfo(cookie, secret, key, opt);
+    return obj[key] ?? false;
+  }
+  if (!cookie) {
+    return {};
+  }
+  const obj = unprefixCookies(
+    await parseSealedWithInfo(cookie, secret, undefined, opt),
+    opt?.prefix,
+  );
+
+  return obj as any;
+};
+
+// values of cookies defined without a codec are stored as is
+const stringCodec = createCodec<string>({
+  encode: (value) => value,
+  decode: (value) => value,
+});
+
+export function defineCookie<T>(
+  definition: CookieDefinitionOptions & { codec: Codec<T> },
+): CookieDefinition<T>;
+export function defineCookie(
+  definition: CookieDefinitionOptions & { codec?: undefined },
+): CookieDefinition<string>;
+export function defineCookie<T>(
+  definition: CookieDefinitionOptions & { codec?: Codec<T> },
+): CookieDefinition<T> {
+  const { name } = definition;
+  const codec = definition.codec ?? (stringCodec as unknown as Codec<T>);
+  const options = { ...definition.options, codec };
+
+  return {
+    name,
+    kind: definition.kind,
+    get: async (headers) => {
+      switch (definition.kind) {
+        case "plain":
+          return getCookie(headers, name, options);
+        case "signed": {
+          const value = await getSignedCookie(
+            headers,
+            definition.secret,
+            name,
+            options,
+          );
+          return value === false ? undefined : value;
+        }
+        case "sealed": {
+          const value = await getSealedCookie(
+            headers,
+            definition.secret,
+            name,
+            options,
+          );
+          return value === false ? undefined : value;
+        }
+      }
+    },
+    set: async (headers, value) => {
+      switch (definition.kind) {
+        case "plain":
+          return setCookie(headers, name, value, options);
+        case "signed":
+          return setSignedCookie(
+            headers,
+            value,
+            definition.secret,
+            name,
+            options,
+          );
+        case "sealed":
+          return setSealedCookie(
+            headers,
+            value,
+            definition.secret,
+            name,
+            options,
+          );
+      }
+    },
+    delete: (headers, opt) => {
+      deleteCookie(headers, name, { ...definition.options, ...opt });
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { getCookie, setCookie } from "./cookie";
+import { fixedTimeComparison } from "./iron-webcrypto/iron-webcrypto";
+import { base64urlEncode } from "./iron-webcrypto/utils";
+import {
+  decodeSignature,
+  encodeSignature,
+  getVerificationKey,
+  importSigningKey,
+  isSignatureAlgorithm,
+  makeSignature,
+  verifySignatureWithSecrets,
+} from "./signature";
+import type { HmacAlgorithm, SigningSecret } from "./signature";
+import { getSigningSecret } from "./utils";
+import type { CookieOptions } from "./utils";
+
+export type CsrfOptions = CookieOptions & {
+  secret: SigningSecret | SigningSecret[];
+  // the name of the cookie holding the token, defaults to csrf
+  name?: string;
+  // the HMAC algorithm used with string and buffer secrets, defaults to HS256
+  algorithm?: HmacAlgorithm;
+  // the request header and form field the token is submitted in
+  headerName?: string;
+  fieldName?: string;
+  // methods that are not checked, defaults to GET, HEAD, OPTIONS and TRACE
+  safeMethods?: string[];
+  // origins other than the one of the request that may submit requests
+  allowedOrigins?: string[];
+};
+
+const defaultSafeMethods = ["GET", "HEAD", "OPTIONS", "TRACE"];
+
+// tokens are a random value and a signature of it together with the session id, with the
+// signature algorithm recorded as in signed cookies, omitted for HS256: [alg.]random.signature
+async function signCsrfToken(
+  sessionId: string,
+  random: string,
+  opt: CsrfOptions,
+): Promise<string> {
+  const { algorithm, key } = await importSigningKey(
+    getSigningSecret(opt.secret),
+    opt.algorithm,
+  );
+  const signature = await makeSignature(
+    JSON.stringify([sessionId, random]),
+    algorithm,
+    key,
+  );
+  const token = `${random}.${encodeSignature(signature, true)}`;
+  return algorithm === "HS256" ? token : `${algorithm}.${token}`;
+}
+
+async function verifyCsrfToken(
+  token: string,
+  sessionId: string,
+  opt: CsrfOptions,
+): Promise<boolean> {
+  const parts = token.split(".");
+  const algorithm = parts.length === 3 ? parts.shift()! : "HS256";
+  const [random, signature, ...rest] = parts;
+  const signatureBytes = signature && decodeSignature(signature);
+  if (
+    !isSignatureAlgorithm(algorithm) ||
+    !random ||
+    !signatureBytes ||
+    rest.length
+  ) {
+    return false;
+  }
+  const secrets = Array.isArray(opt.secret) ? opt.secret : [opt.secret];
+  const secretIndex = await verifySignatureWithSecrets(
+    signatureBytes,
+    JSON.stringify([sessionId, random]),
+    algorithm,
+    secrets.map(getVerificationKey),
+  );
+  return secretIndex !== -1;
+}
+
+function isAllowedOrigin(request: Request, opt: CsrfOptions): boolean {
+  const allowedOrigins = [
+    new URL(request.url).origin,
+    ...(opt.allowedOrigins ?? []),
+  ];
+  const origin = request.headers.get("Origin");
+  if (origin !== null) {
+    return allowedOrigins.includes(origin);
+  }
+  const referer = request.headers.get("Referer");
+  if (referer !== null) {
+    try {
+      return allowedOrigins.includes(new URL(referer).origin);
+    } catch {
+      return false;
+    }
+  }
+  // requests without either header are checked by their token only
+  return true;
+}
+
+async function getSubmittedToken(
+  request: Request,
+  opt: CsrfOptions,
+): Promise<string | undefined> {
+  const header = request.headers.get(opt.headerName ?? "X-CSRF-Token");
+  if (header !== null) {
+    return header;
+  }
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (
+    !contentType.startsWith("application/x-www-form-urlencoded") &&
+    !contentType.startsWith("multipart/form-data")
+  ) {
+    return undefined;
+  }
+  try {
+    // the body is read from a clone, so that it can still be read afterwards
+    const field = (await request.clone().formData()).get(
+      opt.fieldName ?? "csrf_token",
+    );
+    return typeof field === "string" ? field : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// returns the token of the request if it is valid for the session, or sets a new one
+export async function issueCsrfToken(
+  requestHeaders: Headers,
+  responseHeaders: Headers,
+  sessionId: string,
+  opt: CsrfOptions,
+): Promise<string> {
+  const name = opt.name ?? "csrf";
+  const token = getCookie(requestHeaders, name, opt);
+  if (token && (await verifyCsrfToken(token, sessionId, opt))) {
+    return token;
+  }
+  const random = base64urlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const newToken = await signCsrfToken(sessionId, random, opt);
+  setCookie(responseHeaders, name, newToken, opt);
+  return newToken;
+}
+
+// checks that the token submitted with the request matches the cookie and belongs to the session
+export async function verifyCsrfRequest(
+  request: Request,
+  sessionId: string,
+  opt: CsrfOptions,
+): Promise<boolean> {
+  const safeMethods = (opt.safeMethods ?? defaultSafeMethods).map((method) =>
+    method.toUpperCase(),
+  );
+  if (safeMethods.includes(request.method.toUpperCase())) {
+    return true;
+  }
+  if (!isAllowedOrigin(request, opt)) {
+    return false;
+  }
+  const token = getCookie(request.headers, opt.name ?? "csrf", opt);
+  const submittedToken = await getSubmittedToken(request, opt);
+  if (
+    !token ||
+    !submittedToken ||
+    !fixedTimeComparison(token, submittedToken)
+  ) {
+    return false;
+  }
+  return verifyCsrfToken(token, sessionId, opt);
+}
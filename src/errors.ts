@@ -0,0 +1,19 @@
+export type CookieErrorCode =
+  | "invalid_name"
+  | "invalid_value"
+  | "invalid_domain"
+  | "invalid_path"
+  | "invalid_extension"
+  | "invalid_prefix"
+  | "insecure_same_site_none";
+
+// thrown when serializing a cookie that browsers would reject or misread
+export class CookieError extends Error {
+  readonly code: CookieErrorCode;
+
+  constructor(code: CookieErrorCode, message: string) {
+    super(message);
+    this.name = "CookieError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,62 @@
+import { jsonCodec } from "./codec";
+import { deleteCookie, getSignedCookie, setSignedCookie } from "./cookie";
+import type { SigningSecret } from "./signature";
+import { parse, unprefixCookies } from "./utils";
+import type { GetSignedCookieOptions, SignedCookieOptions } from "./utils";
+
+export type FlashOptions = SignedCookieOptions &
+  GetSignedCookieOptions & {
+    secret: SigningSecret | SigningSecret[];
+    // messages are stored in a cookie per key, named name-key, defaults to flash
+    name?: string;
+  };
+
+const flashCodec = jsonCodec();
+
+// sets a message that is read by the next request that consumes the flash messages
+export async function flash(
+  headers: Headers,
+  key: string,
+  value: unknown,
+  opt: FlashOptions,
+): Promise<void> {
+  const { secret, name = "flash", ...cookieOpt } = opt;
+  await setSignedCookie(headers, value, secret, `${name}-${key}`, {
+    ...cookieOpt,
+    codec: flashCodec,
+  });
+}
+
+// reads the messages sent with the request and deletes them, forged messages are left out
+export async function consumeFlash<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(
+  requestHeaders: Headers,
+  responseHeaders: Headers,
+  opt: FlashOptions,
+): Promise<Partial<T>> {
+  const { secret, name = "flash", ...cookieOpt } = opt;
+  const cookie = requestHeaders.get("Cookie");
+  const cookieNames = Object.keys(
+    unprefixCookies(
+      cookie ? parse(cookie, undefined, { chunk: cookieOpt.chunk }) : {},
+      cookieOpt.prefix,
+    ),
+  ).filter((cookieName) => cookieName.startsWith(`${name}-`));
+
+  const messages: Record<string, unknown> = {};
+  for (const cookieName of cookieNames) {
+    const value = await getSignedCookie(requestHeaders, secret, cookieName, {
+      ...cookieOpt,
+      codec: flashCodec,
+    });
+    if (value !== false) {
+      messages[cookieName.substring(name.length + 1)] = value;
+    }
+    deleteCookie(responseHeaders, cookieName, {
+      ...cookieOpt,
+      requestHeaders,
+    });
+  }
+  return messages as Partial<T>;
+}
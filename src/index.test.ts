@@ -1,14 +1,51 @@
-import { expect, it, describe } from "bun:test";
+import { expect, it, describe, setSystemTime, spyOn } from "bun:test";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
 
 import {
   getCookie,
   getSignedCookie,
+  getSignedCookieInfo,
   setCookie,
   setSignedCookie,
   deleteCookie,
   setSealedCookie,
   getSealedCookie,
+  getSealedCookieInfo,
+  createKeyCache,
+  createCookieJar,
+  issueCsrfToken,
+  flash,
+  consumeFlash,
+  verifyCsrfRequest,
+  createSession,
+  createStoredSession,
+  createMemoryStorage,
+  createKeyValueStorage,
+  invalidateUserSessions,
+  fromNodeRequest,
+  fromNodeResponse,
+  CookieError,
+  defineCookie,
+  getAllCookies,
+  getSetCookies,
+  parse,
+  parseSetCookie,
+  base64urlCodec,
+  createCodec,
+  jsonCodec,
 } from ".";
+import type { DuplicatePolicy, KeyCache } from ".";
+import { serialize } from "./utils";
+
+// the Cookie header a client sends back after storing the cookies of a response
+const requestHeaders = (responseHeaders: Headers) =>
+  new Headers({
+    Cookie: responseHeaders
+      .getSetCookie()
+      .map((cookie) => cookie.split(";")[0])
+      .join("; "),
+  });
 
 describe("Parse cookie", () => {
   it("gets cookie", async () => {
@@ -34,7 +71,7 @@ describe("Parse cookie", () => {
   it("gets signed cookies", async () => {
     const headers = new Headers({
       Cookie:
-        "fortune_cookie=lots-of-money.UO6vMygDM6NCDU4LdvBnzdVb2Xcdj+h+ZTnmS8X7iH8%3D; fruit_cookie=mango.lRwgtW9ooM9%2Fd9ZZA%2FInNRG64CbQsfWGXQyFLPM9520%3D",
+        "fortune_cookie=lots-of-money.dwBH42%2FUR6mQHpDOLR4tVYaEG7ANuN3BdN%2F4gJ%2F1pD0%3D; fruit_cookie=mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D",
     });
 
     expect(await getSignedCookie(headers, "secret lucky charm")).toEqual({
@@ -46,7 +83,7 @@ describe("Parse cookie", () => {
   it("gets signed cookies with key", async () => {
     const headers = new Headers({
       Cookie:
-        "fortune_cookie=lots-of-money.UO6vMygDM6NCDU4LdvBnzdVb2Xcdj+h+ZTnmS8X7iH8%3D; fruit_cookie=mango.lRwgtW9ooM9%2Fd9ZZA%2FInNRG64CbQsfWGXQyFLPM9520%3D",
+        "fortune_cookie=lots-of-money.dwBH42%2FUR6mQHpDOLR4tVYaEG7ANuN3BdN%2F4gJ%2F1pD0%3D; fruit_cookie=mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D",
     });
 
     expect(
@@ -62,7 +99,7 @@ describe("Parse cookie", () => {
     const headers = new Headers({
       Cookie:
         // fruit_cookie has invalid signature
-        "fortune_cookie=lots-of-money.UO6vMygDM6NCDU4LdvBnzdVb2Xcdj+h+ZTnmS8X7iH8%3D; fruit_cookie=mango.LAa7RX43t2vCrLNcKmNG65H41OkyV02sraRPuY5RuVg%3D",
+        "fortune_cookie=lots-of-money.dwBH42%2FUR6mQHpDOLR4tVYaEG7ANuN3BdN%2F4gJ%2F1pD0%3D; fruit_cookie=mango.LAa7RX43t2vCrLNcKmNG65H41OkyV02sraRPuY5RuVg%3D",
     });
 
     const signedCookie = await getSignedCookie(headers, "secret lucky charm");
@@ -77,7 +114,7 @@ describe("Parse cookie", () => {
     const headers = new Headers({
       Cookie:
         // fruit_cookie has invalid signature
-        "fortune_cookie=lots-of-money.UO6vMygDM6NCDU4LdvBnzdVb2Xcdj+h+ZTnmS8X7iH8%3D; fruit_cookie=mango.LAa7RX43t2vCrLNcKmNG65H41OkyV02sraRPuY5RuVg%3D",
+        "fortune_cookie=lots-of-money.dwBH42%2FUR6mQHpDOLR4tVYaEG7ANuN3BdN%2F4gJ%2F1pD0%3D; fruit_cookie=mango.LAa7RX43t2vCrLNcKmNG65H41OkyV02sraRPuY5RuVg%3D",
     });
 
     expect(
@@ -123,7 +160,7 @@ describe("Set cookie", () => {
     );
     const header = headers.get("Set-Cookie");
     expect(header).toBe(
-      "delicious_cookie=macha.diubJPY8O7hI1pLa42QSfkPiyDWQ0I4DnlACH%2FN2HaA%3D; Path=/",
+      "delicious_cookie=macha.8HdDmmcmRbD7zeyTotNmy6JHJunPHkx8k0hCy5hOnfQ%3D; Path=/",
     );
   });
 
@@ -138,7 +175,7 @@ describe("Set cookie", () => {
     );
     const header = headers.get("Set-Cookie");
     expect(header).toBe(
-      "delicious_cookie=macha.diubJPY8O7hI1pLa42QSfkPiyDWQ0I4DnlACH%2FN2HaA%3D; Path=/a",
+      "delicious_cookie=macha.8HdDmmcmRbD7zeyTotNmy6JHJunPHkx8k0hCy5hOnfQ%3D; Path=/a",
     );
   });
 
@@ -179,7 +216,7 @@ describe("Set cookie", () => {
 
     const header = headers.get("Set-Cookie");
     expect(header).toBe(
-      "great_cookie=banana.hSo6gB7YT2db0WBiEAakEmh7dtwEL0DSp76G23WvHuQ%3D; Max-Age=1000; Domain=example.com; Path=/; Expires=Sun, 24 Dec 2000 10:30:59 GMT; HttpOnly; Secure; SameSite=Strict",
+      "great_cookie=banana.BntJber7Q7zF%2FahF98aAdy4b85pjYpa4kdcDYWbhkYw%3D; Max-Age=1000; Domain=example.com; Path=/; Expires=Sun, 24 Dec 2000 10:30:59 GMT; HttpOnly; Secure; SameSite=Strict",
     );
   });
 
@@ -288,7 +325,10 @@ describe("Sealed cookie", () => {
       Cookie: `delicious_cookie=8a5d7b4a8dcfb3ac0913c2b5ccbbab0edd92eb3f4310f3855795fd3f5627a971*yWLj-68VC_pBNO5IEVSLnQ*Me1qiB1z2QzHNgyiOffxmg*6a86ee89ab37c2ba412fc5c209c3b410ae74b4bc58252e3c243105e29f886b70*u2aXeBW7u_GxzBZegqec4DLQ7EUBu8jd2E4LhETUk9M; more_delicious_cookie=c1695ec7a4c3a1dc4aa6d20dcff7e883b1f67a8e9d51d01091ad1fe32c7367c1*RPNWq0S0wdCDay9YLYu_qA*IagkAhDRtGA5JUx9QTVUpg*6304d35fe58fa0fb1f8dd51e861a8e2dec3a4bae1daa94a5bfd1946a48aeba88*bP4Yt5y-EZ9U1iI1BfZbXd8MWWE1IyGKj5AQTuZVmIg;`,
     });
 
-    const value = await getSealedCookie(requestHeaders, "secret");
+    // sealed before values were bound to the cookie name
+    const value = await getSealedCookie(requestHeaders, "secret", undefined, {
+      allowUnbound: true,
+    });
 
     expect(value).toEqual({
       delicious_cookie: "macha",
@@ -336,3 +376,2713 @@ describe("Sealed cookie", () => {
     ).toBe(false);
   });
 });
+
+describe("Sealed cookie keyring", () => {
+  const sealWith = async (secret: Parameters<typeof setSealedCookie>[2]) => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(responseHeaders, "macha", secret, "delicious_cookie");
+    const header = responseHeaders.get("Set-Cookie")!;
+    return new Headers({ Cookie: header.split(";")[0] });
+  };
+
+  it("records the password id in the sealed value", async () => {
+    const requestHeaders = await sealWith({
+      current: "v2",
+      passwords: { v2: "secret choco chips v2" },
+    });
+
+    expect(requestHeaders.get("Cookie")).toMatch(/^delicious_cookie=v2\*/);
+  });
+
+  it("unseals with the matching password", async () => {
+    const requestHeaders = await sealWith({
+      current: "v1",
+      passwords: { v1: "secret choco chips v1" },
+    });
+
+    const keyring = {
+      current: "v2",
+      passwords: {
+        v1: "secret choco chips v1",
+        v2: "secret choco chips v2",
+      },
+    };
+
+    expect(
+      await getSealedCookie(requestHeaders, keyring, "delicious_cookie"),
+    ).toBe("macha");
+    expect(
+      await getSealedCookieInfo(requestHeaders, keyring, "delicious_cookie"),
+    ).toEqual({ value: "macha", passwordId: "v1", stale: true });
+  });
+
+  it("does not flag values sealed with the current password", async () => {
+    const keyring = {
+      current: "v2",
+      passwords: {
+        v1: "secret choco chips v1",
+        v2: "secret choco chips v2",
+      },
+    };
+    const requestHeaders = await sealWith(keyring);
+
+    expect(await getSealedCookieInfo(requestHeaders, keyring)).toEqual({
+      delicious_cookie: { value: "macha", passwordId: "v2", stale: false },
+    });
+  });
+
+  it("unseals values without a password id with the default password", async () => {
+    const requestHeaders = await sealWith("secret choco chips");
+
+    expect(
+      await getSealedCookieInfo(
+        requestHeaders,
+        {
+          current: "v2",
+          passwords: {
+            default: "secret choco chips",
+            v2: "secret choco chips v2",
+          },
+        },
+        "delicious_cookie",
+      ),
+    ).toEqual({ value: "macha", passwordId: "", stale: true });
+  });
+
+  it("rejects values sealed with an unknown password id", async () => {
+    const requestHeaders = await sealWith({
+      current: "v1",
+      passwords: { v1: "secret choco chips v1" },
+    });
+
+    expect(
+      await getSealedCookie(
+        requestHeaders,
+        { current: "v2", passwords: { v2: "secret choco chips v2" } },
+        "delicious_cookie",
+      ),
+    ).toBe(false);
+  });
+
+  it("throws when sealing with an unknown current password id", async () => {
+    await expect(
+      setSealedCookie(
+        new Headers(),
+        "macha",
+        { current: "v3", passwords: { v2: "secret choco chips v2" } },
+        "delicious_cookie",
+      ),
+    ).rejects.toThrow("Cannot find password: v3");
+  });
+});
+
+describe("Sealed cookie iron format", () => {
+  const password = "secret choco chips that are long enough";
+
+  // other iron implementations do not bind values to the cookie name, and such values
+  // are stale
+  const unbound = { allowUnbound: true };
+  // sealed with @hapi/iron using the default options
+  const ironSealed =
+    "Fe26.2**32963333074af62d420193eeb59deedc4403f4d1ececed07c39020d8a8abbbd6*l0FRCTMEzS5Ob5vPsyGvhw*nzwgF0zV-xd9DLMkgaaftg**2cc6c3ecd9244e99a22d99577ce32db380df8ceae45eafdfb5eba9be23bdbc47*eueyfexA9poE-9y3XNaeaX6FFpb-48IlTW5r8nJh7N0";
+  const ironSealedWithId =
+    "Fe26.2*v2*6c59e4f93691734a17074a9945f91797ad3f686db1f4bf3ceaea6f8566d15ae3*QIPKtzYMCaeTOQnvXR5Egg*LBoAVnLqfHxmh492RMQNGA**1824c5eed72f4425d99e3d399ff05af6266b5dff96c74a5ca8fe1a162df661f4*UfIWPIJjVy5AAy0SUNX1k-mYWeQYshzOO83YzzMYRRM";
+  const ironSealedObject =
+    "Fe26.2**c8bcf35698e6474d92670c892e863cc3feab9b4e543443a6661b553292d30d42*X61kq6u4B7IzPX8fnk48Yw*Yr0vo1UqCZQNoYbtWEBJZTu5Vjx2tH8SLWLbfeaLntA**c8eed54b52ce2f2194a67925f4c8cd916e640020e4b83cd9ed9505a67b3b383d*VFqyAer3yXUuJW1bd4zEMC-phLc4wrTwXRFrsqcoA-w";
+
+  it("Set/Get sealed cookie in the iron format", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      password,
+      "delicious_cookie",
+      {
+        format: "iron",
+      },
+    );
+    const header = responseHeaders.get("Set-Cookie")!;
+    expect(header).toMatch(
+      /^delicious_cookie=Fe26\.2\*\*(?:[^*;]+\*){3}\*[^*;]+\*[^*;]+; Path=\/$/,
+    );
+
+    const requestHeaders = new Headers({ Cookie: header.split(";")[0] });
+    expect(
+      await getSealedCookie(requestHeaders, password, "delicious_cookie"),
+    ).toBe("macha");
+  });
+
+  it("gets cookies sealed by @hapi/iron", async () => {
+    const requestHeaders = new Headers({
+      Cookie: `delicious_cookie=${ironSealed}; more_delicious_cookie=${ironSealedObject}`,
+    });
+
+    expect(
+      await getSealedCookie(requestHeaders, password, undefined, unbound),
+    ).toEqual({
+      delicious_cookie: "macha",
+      more_delicious_cookie: '{"flavor":"macha"}',
+    });
+  });
+
+  it("gets cookies sealed by @hapi/iron with a password id", async () => {
+    const requestHeaders = new Headers({
+      Cookie: `delicious_cookie=${ironSealedWithId}`,
+    });
+
+    expect(
+      await getSealedCookieInfo(
+        requestHeaders,
+        { current: "v2", passwords: { v2: password } },
+        "delicious_cookie",
+        unbound,
+      ),
+    ).toEqual({ value: "macha", passwordId: "v2", stale: true });
+  });
+
+  it("gets cookies sealed by iron-session", async () => {
+    const requestHeaders = new Headers({
+      Cookie: `delicious_cookie=${ironSealed}~2`,
+    });
+
+    expect(
+      await getSealedCookie(
+        requestHeaders,
+        password,
+        "delicious_cookie",
+        unbound,
+      ),
+    ).toBe("macha");
+  });
+
+  it("rejects expired cookies in the iron format", async () => {
+    // sealed with @hapi/iron with a ttl of 1ms
+    const expiringSealed =
+      "Fe26.2**fd3154d5004c8408e925aa145202db2f3b9a0e579942d54bb7be469c421817b3*4lazPSuEQLNjwicOtx7H-w*BKncSOngeazwMzSyO6EnNg*1792370612043*3429bc91f594df431b90b16c2fb102e77422d39224eaf02d70cf496e298b4de6*n1A-CTS8cpgS1hNYolcX0QgIS_AvcdVLPMTZo1DnJTI";
+    const requestHeaders = new Headers({
+      Cookie: `delicious_cookie=${expiringSealed}`,
+    });
+
+    try {
+      setSystemTime(new Date(1792370612043 + 30_000));
+      expect(
+        await getSealedCookie(
+          requestHeaders,
+          password,
+          "delicious_cookie",
+          unbound,
+        ),
+      ).toBe("macha");
+
+      setSystemTime(new Date(1792370612043 + 90_000));
+      expect(
+        await getSealedCookie(
+          requestHeaders,
+          password,
+          "delicious_cookie",
+          unbound,
+        ),
+      ).toBe(false);
+    } finally {
+      setSystemTime();
+    }
+  });
+});
+
+describe("Cookie expiration", () => {
+  const issuedAt = Date.UTC(2000, 11, 24, 10, 30, 59);
+  const clock = (ms: number) => () => issuedAt + ms;
+
+  it("Set/Get signed cookie with ttl", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(
+      responseHeaders,
+      "macha",
+      "secret chocolate chips",
+      "delicious_cookie",
+      { ttl: 3600, now: clock(0) },
+    );
+    const header = responseHeaders.get("Set-Cookie")!;
+    expect(header).toBe(
+      "delicious_cookie=macha.977653859~977657459.64wDrY19_C7C12ds9y3qFVgkQfo-CYo2pz6HcYy1HtY; Path=/",
+    );
+
+    const requestHeaders = new Headers({ Cookie: header.split(";")[0] });
+    const get = (ms: number, clockTolerance?: number) =>
+      getSignedCookie(
+        requestHeaders,
+        "secret chocolate chips",
+        "delicious_cookie",
+        { now: clock(ms), clockTolerance },
+      );
+
+    expect(await get(3_600_000)).toBe("macha");
+    expect(await get(3_660_000)).toBe(false);
+    expect(await get(3_601_000, 0)).toBe(false);
+    expect(await get(3_601_000, 10)).toBe("macha");
+  });
+
+  it("rejects signed cookies with a tampered expiration", async () => {
+    const requestHeaders = new Headers({
+      Cookie:
+        "delicious_cookie=macha.977653859~987657459.64wDrY19_C7C12ds9y3qFVgkQfo-CYo2pz6HcYy1HtY",
+    });
+
+    expect(
+      await getSignedCookie(
+        requestHeaders,
+        "secret chocolate chips",
+        "delicious_cookie",
+        { now: clock(0) },
+      ),
+    ).toBe(false);
+  });
+
+  it("Set/Get sealed cookie with ttl", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      "secret choco chips",
+      "delicious_cookie",
+      { ttl: 3600, now: clock(0) },
+    );
+    const header = responseHeaders.get("Set-Cookie")!;
+    expect(header).toMatch(/\*977653859~977657459\*/);
+
+    const requestHeaders = new Headers({ Cookie: header.split(";")[0] });
+    const get = (ms: number) =>
+      getSealedCookieInfo(
+        requestHeaders,
+        "secret choco chips",
+        "delicious_cookie",
+        { now: clock(ms), clockTolerance: 0 },
+      );
+
+    expect(await get(3_599_000)).toEqual({
+      value: "macha",
+      passwordId: "",
+      stale: false,
+      issuedAt: 977653859,
+      expiresAt: 977657459,
+    });
+    expect(await get(3_600_000)).toBe(false);
+  });
+
+  it("Set/Get sealed cookie with ttl in the iron format", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      "secret choco chips",
+      "delicious_cookie",
+      { format: "iron", ttl: 3600, now: clock(0) },
+    );
+    const header = responseHeaders.get("Set-Cookie")!;
+    expect(header).toMatch(/\*977657459000\*/);
+
+    const requestHeaders = new Headers({ Cookie: header.split(";")[0] });
+    const get = (ms: number) =>
+      getSealedCookie(requestHeaders, "secret choco chips", undefined, {
+        now: clock(ms),
+      });
+
+    expect(await get(3_600_000)).toEqual({ delicious_cookie: "macha" });
+    expect(await get(3_660_000)).toEqual({ delicious_cookie: false });
+  });
+
+  it("rejects sealed cookies with a tampered expiration", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      "secret choco chips",
+      "delicious_cookie",
+      { ttl: 3600, now: clock(0) },
+    );
+    const sealed = responseHeaders
+      .get("Set-Cookie")!
+      .split(";")[0]
+      .replace("977657459", "987657459");
+
+    expect(
+      await getSealedCookie(
+        new Headers({ Cookie: sealed }),
+        "secret choco chips",
+        "delicious_cookie",
+        { now: clock(0) },
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("Sealed cookie options", () => {
+  const roundTrip = async (
+    secret: Parameters<typeof setSealedCookie>[2],
+    setOptions: Parameters<typeof setSealedCookie>[4],
+    getSecret: Parameters<typeof getSealedCookie>[1],
+    getOptions: Parameters<typeof getSealedCookie>[3],
+  ) => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      secret,
+      "delicious_cookie",
+      setOptions,
+    );
+    const requestHeaders = new Headers({
+      Cookie: responseHeaders.get("Set-Cookie")!.split(";")[0],
+    });
+    return getSealedCookie(
+      requestHeaders,
+      getSecret,
+      "delicious_cookie",
+      getOptions,
+    );
+  };
+
+  it("derives keys with the given iterations", async () => {
+    const secret = "secret choco chips";
+
+    expect(
+      await roundTrip(secret, { iterations: 100 }, secret, {
+        iterations: 100,
+      }),
+    ).toBe("macha");
+    expect(await roundTrip(secret, { iterations: 100 }, secret, {})).toBe(
+      false,
+    );
+  });
+
+  it("uses salts of the given size", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      "secret choco chips",
+      "delicious_cookie",
+      { saltBits: 128 },
+    );
+    const [encryptionSalt, , , hmacSalt] = responseHeaders
+      .get("Set-Cookie")!
+      .split(";")[0]
+      .split("=")[1]
+      .split("*");
+
+    expect(encryptionSalt).toHaveLength(32);
+    expect(hmacSalt).toHaveLength(32);
+  });
+
+  it("throws when the password is too short", async () => {
+    await expect(
+      setSealedCookie(
+        new Headers(),
+        "macha",
+        "secret choco chips",
+        "delicious_cookie",
+        { minPasswordLength: 32 },
+      ),
+    ).rejects.toThrow("Password too short (min 32 characters required)");
+
+    await expect(
+      getSealedCookie(
+        new Headers({ Cookie: "delicious_cookie=a*b*c*d*e" }),
+        {
+          current: "v2",
+          passwords: {
+            v1: "secret choco chips",
+            v2: "secret choco chips that are long enough",
+          },
+        },
+        "delicious_cookie",
+        { minPasswordLength: 32 },
+      ),
+    ).rejects.toThrow("Password too short (min 32 characters required)");
+  });
+
+  it("throws when the password is empty", async () => {
+    await expect(
+      setSealedCookie(new Headers(), "macha", "", "delicious_cookie"),
+    ).rejects.toThrow("Empty password");
+  });
+
+  it("seals with a buffer password", async () => {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+
+    expect(await roundTrip(secret, {}, secret, {})).toBe("macha");
+    expect(
+      await roundTrip(secret, { minPasswordLength: 32 }, secret, {
+        minPasswordLength: 32,
+      }),
+    ).toBe("macha");
+    await expect(
+      roundTrip(secret, { minPasswordLength: 64 }, secret, {}),
+    ).rejects.toThrow("Password too short (min 64 bytes required)");
+  });
+
+  it("seals with a PBKDF2 key password", async () => {
+    const secret = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode("secret choco chips"),
+      "PBKDF2",
+      false,
+      ["deriveBits"],
+    );
+
+    expect(await roundTrip(secret, {}, "secret choco chips", {})).toBe("macha");
+  });
+});
+
+describe("Sealed cookie gcm format", () => {
+  const seal = async (
+    options: Parameters<typeof setSealedCookie>[4],
+    name = "delicious_cookie",
+  ) => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      "macha",
+      "secret choco chips",
+      name,
+      options,
+    );
+    return responseHeaders.get("Set-Cookie")!.split(";")[0].split("=")[1];
+  };
+
+  it("Set/Get sealed cookie in the gcm format", async () => {
+    const sealed = await seal({ format: "gcm" });
+    expect(sealed).toMatch(/^gcm\.1\*\*[\w-]{43}\*[\w-]{16}\*[\w-]+\*$/);
+    expect(sealed.length).toBeLessThan((await seal({})).length);
+
+    const requestHeaders = new Headers({
+      Cookie: `delicious_cookie=${sealed}; more_delicious_cookie=${await seal({}, "more_delicious_cookie")}`,
+    });
+
+    expect(await getSealedCookie(requestHeaders, "secret choco chips")).toEqual(
+      { delicious_cookie: "macha", more_delicious_cookie: "macha" },
+    );
+    expect(await getSealedCookie(requestHeaders, "invalid secret")).toEqual({
+      delicious_cookie: false,
+      more_delicious_cookie: false,
+    });
+  });
+
+  it("rejects sealed cookies in the gcm format with a tampered expiration", async () => {
+    const now = () => Date.UTC(2000, 11, 24, 10, 30, 59);
+    const sealed = await seal({ format: "gcm", ttl: 3600, now });
+    expect(sealed).toMatch(/\*977653859~977657459$/);
+
+    const get = (value: string) =>
+      getSealedCookie(
+        new Headers({ Cookie: `delicious_cookie=${value}` }),
+        "secret choco chips",
+        "delicious_cookie",
+        { now },
+      );
+
+    expect(await get(sealed)).toBe("macha");
+    expect(await get(sealed.replace("977657459", "987657459"))).toBe(false);
+  });
+});
+
+describe("Sealed cookie compression", () => {
+  const secret = "secret choco chips";
+  const value = JSON.stringify({ items: Array(50).fill("macha") });
+  const seal = async (
+    value: string,
+    options: Parameters<typeof setSealedCookie>[4],
+  ) => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(
+      responseHeaders,
+      value,
+      secret,
+      "delicious_cookie",
+      options,
+    );
+    return responseHeaders.get("Set-Cookie")!.split(";")[0].split("=")[1];
+  };
+  const unseal = (sealed: string) =>
+    getSealedCookie(
+      new Headers({ Cookie: `delicious_cookie=${sealed}` }),
+      secret,
+      "delicious_cookie",
+    );
+
+  it("compresses sealed values", async () => {
+    for (const format of ["legacy", "gcm"] as const) {
+      const compressed = await seal(value, { format, compress: true });
+      const uncompressed = await seal(value, { format });
+
+      expect(compressed).toContain("*z.");
+      expect(uncompressed).not.toContain("*z.");
+      expect(compressed.length).toBeLessThan(uncompressed.length / 2);
+      expect(await unseal(compressed)).toBe(value);
+      expect(await unseal(uncompressed)).toBe(value);
+    }
+  });
+
+  it("does not compress values below the threshold", async () => {
+    expect(await seal("macha", { compress: true })).not.toContain("*z.");
+    expect(
+      await seal(value, { compress: { threshold: value.length + 1 } }),
+    ).not.toContain("*z.");
+    expect(await seal("macha", { compress: { threshold: 0 } })).not.toContain(
+      "*z.",
+    );
+  });
+
+  it("authenticates the compression flag", async () => {
+    for (const format of ["legacy", "gcm"] as const) {
+      const compressed = await seal(value, { format, compress: true });
+      expect(await unseal(compressed.replace("*z.", "*"))).toBe(false);
+
+      const uncompressed = await seal(value, { format });
+      const parts = uncompressed.split("*");
+      parts[format === "gcm" ? 4 : 2] = `z.${parts[format === "gcm" ? 4 : 2]}`;
+      expect(await unseal(parts.join("*"))).toBe(false);
+    }
+  });
+
+  it("does not compress in the iron format", async () => {
+    await expect(
+      seal(value, { format: "iron", compress: true }),
+    ).rejects.toThrow("Compression is not supported in the iron format");
+  });
+});
+
+describe("Signed cookie secrets", () => {
+  const headers = new Headers({
+    Cookie:
+      "fortune_cookie=lots-of-money.dwBH42%2FUR6mQHpDOLR4tVYaEG7ANuN3BdN%2F4gJ%2F1pD0%3D; fruit_cookie=mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D",
+  });
+
+  it("signs with the first secret", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(
+      responseHeaders,
+      "macha",
+      ["secret chocolate chips", "secret lucky charm"],
+      "delicious_cookie",
+    );
+
+    expect(responseHeaders.get("Set-Cookie")).toBe(
+      "delicious_cookie=macha.8HdDmmcmRbD7zeyTotNmy6JHJunPHkx8k0hCy5hOnfQ%3D; Path=/",
+    );
+  });
+
+  it("verifies with any of the secrets", async () => {
+    expect(
+      await getSignedCookie(headers, [
+        "secret chocolate chips",
+        "secret lucky charm",
+      ]),
+    ).toEqual({ fortune_cookie: "lots-of-money", fruit_cookie: "mango" });
+
+    expect(await getSignedCookie(headers, ["secret chocolate chips"])).toEqual({
+      fortune_cookie: false,
+      fruit_cookie: false,
+    });
+  });
+
+  it("tells which secret verified the signature", async () => {
+    expect(
+      await getSignedCookieInfo(
+        headers,
+        ["secret chocolate chips", "secret lucky charm"],
+        "fortune_cookie",
+      ),
+    ).toEqual({ value: "lots-of-money", secretIndex: 1, stale: true });
+
+    expect(
+      await getSignedCookieInfo(
+        headers,
+        ["secret lucky charm", "secret chocolate chips"],
+        "fortune_cookie",
+      ),
+    ).toEqual({ value: "lots-of-money", secretIndex: 0, stale: false });
+  });
+
+  it("throws when signing without a secret", async () => {
+    await expect(
+      setSignedCookie(new Headers(), "macha", [], "delicious_cookie"),
+    ).rejects.toThrow("Missing signing secret");
+  });
+});
+
+describe("Signed cookie algorithms", () => {
+  const sign = async (
+    secret: Parameters<typeof setSignedCookie>[2],
+    options?: Parameters<typeof setSignedCookie>[4],
+  ) => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(
+      responseHeaders,
+      "macha",
+      secret,
+      "delicious_cookie",
+      options,
+    );
+    return new Headers({
+      Cookie: responseHeaders.get("Set-Cookie")!.split(";")[0],
+    });
+  };
+
+  it("signs with HMAC-SHA-512", async () => {
+    const requestHeaders = await sign("secret chocolate chips", {
+      algorithm: "HS512",
+    });
+    expect(requestHeaders.get("Cookie")).toMatch(
+      /^delicious_cookie=macha\.HS512\.[\w-]{86}$/,
+    );
+
+    expect(
+      await getSignedCookie(
+        requestHeaders,
+        "secret chocolate chips",
+        "delicious_cookie",
+      ),
+    ).toBe("macha");
+  });
+
+  it("signs with ECDSA and verifies with the public key", async () => {
+    const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+    const requestHeaders = await sign(privateKey, { ttl: 3600 });
+    expect(requestHeaders.get("Cookie")).toMatch(
+      /^delicious_cookie=macha\.ES256~\d+~\d+\.[\w-]{86}$/,
+    );
+
+    expect(
+      await getSignedCookieInfo(requestHeaders, publicKey, "delicious_cookie"),
+    ).toMatchObject({ value: "macha", secretIndex: 0 });
+
+    const jwk = await crypto.subtle.exportKey("jwk", publicKey);
+    expect(await getSignedCookie(requestHeaders, jwk, "delicious_cookie")).toBe(
+      "macha",
+    );
+
+    const otherKeys = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+    expect(
+      await getSignedCookie(
+        requestHeaders,
+        otherKeys.publicKey,
+        "delicious_cookie",
+      ),
+    ).toBe(false);
+  });
+
+  it("signs with an Ed25519 JWK", async () => {
+    const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+      { name: "Ed25519" },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+    const requestHeaders = await sign(
+      await crypto.subtle.exportKey("jwk", privateKey),
+    );
+    expect(requestHeaders.get("Cookie")).toMatch(
+      /^delicious_cookie=macha\.EdDSA\.[\w-]{86}$/,
+    );
+
+    expect(
+      await getSignedCookie(
+        requestHeaders,
+        ["secret chocolate chips", publicKey],
+        "delicious_cookie",
+      ),
+    ).toBe("macha");
+  });
+
+  it("does not verify signatures of other algorithms", async () => {
+    const { publicKey } = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+    const requestHeaders = await sign("secret chocolate chips");
+
+    expect(
+      await getSignedCookie(requestHeaders, publicKey, "delicious_cookie"),
+    ).toBe(false);
+
+    const signed = requestHeaders
+      .get("Cookie")!
+      .replace("macha.", "macha.HS384.");
+    expect(
+      await getSignedCookie(
+        new Headers({ Cookie: signed }),
+        "secret chocolate chips",
+        "delicious_cookie",
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("Key cache", () => {
+  const secret = "secret choco chips";
+
+  const sealedCookies = async (count: number, iterations: number) => {
+    const responseHeaders = new Headers();
+    for (let i = 0; i < count; i++) {
+      await setSealedCookie(responseHeaders, "macha", secret, `cookie_${i}`, {
+        iterations,
+      });
+    }
+    return requestHeaders(responseHeaders);
+  };
+
+  it("reuses derived keys", async () => {
+    const requestHeaders = await sealedCookies(4, 20_000);
+    const options = { iterations: 20_000, keyCache: createKeyCache() };
+    const deriveBits = spyOn(crypto.subtle, "deriveBits");
+
+    try {
+      const uncached = await getSealedCookie(
+        requestHeaders,
+        secret,
+        undefined,
+        options,
+      );
+      // an encryption and an integrity key for each cookie
+      expect(deriveBits).toHaveBeenCalledTimes(8);
+      expect(options.keyCache.size).toBe(8);
+
+      const cached = await getSealedCookie(
+        requestHeaders,
+        secret,
+        undefined,
+        options,
+      );
+      // the keys are not derived again
+      expect(deriveBits).toHaveBeenCalledTimes(8);
+
+      expect(cached).toEqual(uncached);
+      expect(Object.values(cached)).toEqual(Array(4).fill("macha"));
+    } finally {
+      deriveBits.mockRestore();
+    }
+  });
+
+  it("derives keys once over repeated requests", async () => {
+    const requestHeaders = await sealedCookies(4, 1000);
+    const deriveBits = spyOn(crypto.subtle, "deriveBits");
+    const countDerivations = async (options: { keyCache?: KeyCache }) => {
+      deriveBits.mockClear();
+      for (let i = 0; i < 10; i++) {
+        expect(
+          Object.values(
+            await getSealedCookie(requestHeaders, secret, undefined, {
+              iterations: 1000,
+              ...options,
+            }),
+          ),
+        ).toEqual(Array(4).fill("macha"));
+      }
+      return deriveBits.mock.calls.length;
+    };
+
+    try {
+      // two keys for each of the 4 cookies, derived for each of the 10 requests
+      expect(await countDerivations({})).toBe(80);
+      expect(await countDerivations({ keyCache: createKeyCache() })).toBe(8);
+    } finally {
+      deriveBits.mockRestore();
+    }
+  });
+
+  it("evicts the least recently used keys", async () => {
+    const requestHeaders = await sealedCookies(2, 1);
+    const keyCache = createKeyCache({ maxSize: 3 });
+
+    await getSealedCookie(requestHeaders, secret, undefined, { keyCache });
+
+    expect(keyCache.size).toBe(3);
+
+    const lruCache = createKeyCache({ maxSize: 2 });
+    const key = Promise.resolve({} as CryptoKey);
+    lruCache.set("a", key);
+    lruCache.set("b", key);
+    // reading a makes b the least recently used key
+    expect(lruCache.get("a")).toBe(key);
+    lruCache.set("c", key);
+    expect(lruCache.get("a")).toBe(key);
+    expect(lruCache.get("b")).toBeUndefined();
+    expect(lruCache.get("c")).toBe(key);
+  });
+
+  // holds the calls to a crypto method until they are released, and returns whether
+  // they were all started before any of them finished
+  const overlaps = async (
+    method: "deriveBits" | "verify",
+    count: number,
+    run: () => Promise<unknown>,
+  ) => {
+    const original = crypto.subtle[method].bind(crypto.subtle) as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    let started = 0;
+    const spy = spyOn(crypto.subtle, method).mockImplementation((async (
+      ...args: unknown[]
+    ) => {
+      started++;
+      await released;
+      return original(...args);
+    }) as any);
+
+    try {
+      const result = run();
+      for (let i = 0; i < 100 && started < count; i++) {
+        await Bun.sleep(10);
+      }
+      const startedBeforeRelease = started;
+      release();
+      await result;
+      return startedBeforeRelease === count;
+    } finally {
+      spy.mockRestore();
+    }
+  };
+
+  it("unseals cookies concurrently", async () => {
+    const requestHeaders = await sealedCookies(4, 1);
+    // each cookie derives its integrity key first
+    expect(
+      await overlaps("deriveBits", 4, () =>
+        getSealedCookie(requestHeaders, secret, undefined, { iterations: 1 }),
+      ),
+    ).toBe(true);
+  });
+
+  it("verifies signed cookies concurrently", async () => {
+    const responseHeaders = new Headers();
+    for (let i = 0; i < 4; i++) {
+      await setSignedCookie(responseHeaders, "macha", secret, `cookie_${i}`);
+    }
+    expect(
+      await overlaps("verify", 4, () =>
+        getSignedCookie(requestHeaders(responseHeaders), secret),
+      ),
+    ).toBe(true);
+  });
+
+  it("does not cache keys derived from other passwords", async () => {
+    const requestHeaders = await sealedCookies(1, 1);
+    const keyCache = createKeyCache();
+
+    expect(
+      await getSealedCookie(requestHeaders, secret, "cookie_0", { keyCache }),
+    ).toBe("macha");
+    expect(
+      await getSealedCookie(requestHeaders, "invalid secret", "cookie_0", {
+        keyCache,
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("Cookie codecs", () => {
+  type Cart = { items: string[] };
+  const isCart = (value: unknown): value is Cart =>
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as Cart).items);
+  const secret = "secret chocolate chips";
+
+  it("encodes and decodes JSON", async () => {
+    const responseHeaders = new Headers();
+    const cart = { items: ["macha", "mango"] };
+    setCookie(responseHeaders, "cart", cart, { codec: jsonCodec(isCart) });
+
+    expect(responseHeaders.get("Set-Cookie")).toBe(
+      "cart=%7B%22items%22%3A%5B%22macha%22%2C%22mango%22%5D%7D; Path=/",
+    );
+    const headers = requestHeaders(responseHeaders);
+    const value: Cart | undefined = getCookie(headers, "cart", {
+      codec: jsonCodec(isCart),
+    });
+    expect(value).toEqual(cart);
+    expect(getCookie(headers, undefined, { codec: jsonCodec(isCart) })).toEqual(
+      {
+        cart,
+      },
+    );
+  });
+
+  it("encodes and decodes binary values", async () => {
+    const responseHeaders = new Headers();
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    await setSignedCookie(responseHeaders, bytes, secret, "bytes", {
+      codec: base64urlCodec,
+    });
+
+    expect(responseHeaders.get("Set-Cookie")).toStartWith("bytes=AAEC_f7_.");
+    expect(
+      await getSignedCookie(requestHeaders(responseHeaders), secret, "bytes", {
+        codec: base64urlCodec,
+      }),
+    ).toEqual(bytes);
+  });
+
+  it("uses custom codecs", async () => {
+    const responseHeaders = new Headers();
+    const dateCodec = createCodec<Date>({
+      encode: (value) => value.toISOString(),
+      decode: (value) => new Date(value),
+      validate: (value): value is Date =>
+        value instanceof Date && !Number.isNaN(value.getTime()),
+    });
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    await setSealedCookie(responseHeaders, date, secret, "visited", {
+      codec: dateCodec,
+    });
+
+    expect(
+      await getSealedCookie(
+        requestHeaders(responseHeaders),
+        secret,
+        "visited",
+        { codec: dateCodec },
+      ),
+    ).toEqual(date);
+  });
+
+  it("reports authentic values that cannot be decoded", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "not json", secret, "cart");
+    await setSignedCookie(
+      responseHeaders,
+      JSON.stringify({ items: "macha" }),
+      secret,
+      "other_cart",
+    );
+    const headers = requestHeaders(responseHeaders);
+    const errors: [unknown, string][] = [];
+    const opt = {
+      codec: jsonCodec(isCart),
+      onDecodeError: (error: unknown, name: string) =>
+        errors.push([error, name]),
+    };
+
+    expect(await getSignedCookie(headers, secret, "cart", opt)).toBe(false);
+    expect(await getSignedCookie(headers, secret, undefined, opt)).toEqual({
+      cart: false,
+      other_cart: false,
+    });
+    expect(errors.map(([error, name]) => [String(error), name])).toEqual([
+      [expect.stringContaining("SyntaxError"), "cart"],
+      [expect.stringContaining("SyntaxError"), "cart"],
+      ["Error: Invalid cookie value", "other_cart"],
+    ]);
+  });
+
+  it("does not decode values that are not authentic", async () => {
+    const headers = new Headers({ Cookie: "cart=%7B%7D.invalid" });
+    const errors: unknown[] = [];
+
+    expect(
+      await getSignedCookie(headers, secret, "cart", {
+        codec: jsonCodec(),
+        onDecodeError: (error) => errors.push(error),
+      }),
+    ).toBe(false);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("Cookie chunking", () => {
+  const secret = "secret choco chips";
+  const value = "macha".repeat(2400);
+
+  // applies the cookies of several responses in turn, including deletions
+  const storedCookies = (...responseHeaders: Headers[]) => {
+    const cookies = new Map<string, string>();
+    for (const headers of responseHeaders) {
+      for (const cookie of headers.getSetCookie()) {
+        const [pair] = cookie.split(";");
+        const [name, value] = pair.split("=");
+        if (cookie.includes("Max-Age=0")) {
+          cookies.delete(name);
+        } else {
+          cookies.set(name, value);
+        }
+      }
+    }
+    return new Headers({
+      Cookie: [...cookies]
+        .map(([name, value]) => `${name}=${value}`)
+        .join("; "),
+    });
+  };
+
+  it("splits long cookies into chunks", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(responseHeaders, value, secret, "session", {
+      chunk: true,
+    });
+
+    const cookies = responseHeaders.getSetCookie();
+    const chunks = cookies.slice(0, -2);
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((cookie, i) => {
+      expect(cookie).toStartWith(`session.${i}=`);
+      expect(cookie).toEndWith("; Path=/");
+    });
+    expect(chunks[0].split(";")[0]).toHaveLength(4000);
+    expect(cookies.slice(-2)).toEqual([
+      `session.${chunks.length}=; Max-Age=0; Path=/`,
+      "session=; Max-Age=0; Path=/",
+    ]);
+
+    const headers = storedCookies(responseHeaders);
+    expect(await getSealedCookie(headers, secret, "session")).toBe(value);
+    expect(
+      await getSealedCookie(headers, secret, undefined, { chunk: true }),
+    ).toEqual({ session: value });
+  });
+
+  it("joins chunks before decoding them", async () => {
+    const responseHeaders = new Headers();
+    const value = "€".repeat(1000);
+    setCookie(responseHeaders, "euros", value, {
+      chunk: { maxSize: 1000 },
+    });
+
+    expect(responseHeaders.getSetCookie()).toHaveLength(12);
+    expect(getCookie(storedCookies(responseHeaders), "euros")).toBe(value);
+  });
+
+  it("does not split short cookies", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "macha", secret, "session", {
+      chunk: true,
+    });
+
+    expect(responseHeaders.getSetCookie()).toEqual([
+      "session=macha.EJDbLBalmnLw1delzCDYA9q%2B8A5ikYCdgpaNBs6%2FmCU%3D; Path=/",
+      "session.0=; Max-Age=0; Path=/",
+    ]);
+  });
+
+  it("ignores leftover chunks of longer values", async () => {
+    const longResponseHeaders = new Headers();
+    setCookie(longResponseHeaders, "cookie", value, { chunk: true });
+    const shortResponseHeaders = new Headers();
+    setCookie(shortResponseHeaders, "cookie", value.slice(0, 5000), {
+      chunk: true,
+    });
+    const tinyResponseHeaders = new Headers();
+    setCookie(tinyResponseHeaders, "cookie", "macha", { chunk: true });
+
+    const headers = storedCookies(longResponseHeaders, shortResponseHeaders);
+    expect(headers.get("Cookie")).toContain("cookie.3=");
+    expect(getCookie(headers, "cookie")).toBe(value.slice(0, 5000));
+    expect(
+      getCookie(
+        storedCookies(
+          longResponseHeaders,
+          shortResponseHeaders,
+          tinyResponseHeaders,
+        ),
+        undefined,
+        { chunk: true },
+      ),
+    ).toEqual({ cookie: "macha" });
+  });
+
+  it("reads cookies named like chunks as they are", async () => {
+    const headers = new Headers({ Cookie: "ab.0=macha" });
+    expect(getCookie(headers, "ab.0")).toBe("macha");
+    expect(getCookie(headers)).toEqual({ "ab.0": "macha" });
+    expect(getCookie(headers, "ab")).toBe("macha");
+
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "macha", secret, "x.0");
+    expect(
+      await getSignedCookie(storedCookies(responseHeaders), secret, "x.0"),
+    ).toBe("macha");
+  });
+
+  it("deletes every chunk", async () => {
+    const responseHeaders = new Headers();
+    setCookie(responseHeaders, "cookie", value, { chunk: true });
+    const headers = new Headers({
+      Cookie: `${storedCookies(responseHeaders).get("Cookie")}; cookie.7=leftover; other=macha`,
+    });
+
+    const deleteHeaders = new Headers();
+    deleteCookie(deleteHeaders, "cookie", {
+      chunk: true,
+      requestHeaders: headers,
+    });
+
+    expect(deleteHeaders.getSetCookie()).toEqual(
+      [
+        "cookie",
+        "cookie.0",
+        "cookie.1",
+        "cookie.2",
+        "cookie.3",
+        "cookie.7",
+      ].map((name) => `${name}=; Max-Age=0; Path=/`),
+    );
+  });
+});
+
+describe("Set-Cookie parser", () => {
+  it("parses every attribute", () => {
+    expect(
+      parseSetCookie(
+        "__Host-cookie=macha%20latte; Max-Age=1000; Domain=example.com; Path=/; Expires=Sun, 24 Dec 2000 10:30:59 GMT; HttpOnly; Secure; SameSite=Strict; Partitioned",
+      ),
+    ).toEqual({
+      name: "__Host-cookie",
+      value: "macha latte",
+      maxAge: 1000,
+      domain: "example.com",
+      path: "/",
+      expires: new Date(Date.UTC(2000, 11, 24, 10, 30, 59)),
+      httpOnly: true,
+      secure: true,
+      sameSite: "Strict",
+      partitioned: true,
+    });
+  });
+
+  it("parses attributes case-insensitively", () => {
+    expect(
+      parseSetCookie(
+        'cookie="macha"; max-age=10; MAX-AGE=20; samesite=lax; secure; path=/a',
+      ),
+    ).toEqual({
+      name: "cookie",
+      value: "macha",
+      maxAge: 20,
+      sameSite: "Lax",
+      secure: true,
+      path: "/a",
+    });
+  });
+
+  it("keeps unknown extension attributes", () => {
+    expect(
+      parseSetCookie(
+        "cookie=macha; priority=high; Flavor; Topping=Milk; Path=/",
+      ),
+    ).toEqual({
+      name: "cookie",
+      value: "macha",
+      path: "/",
+      priority: "High",
+      extensions: { Flavor: true, Topping: "Milk" },
+    });
+  });
+
+  it("ignores invalid attribute values", () => {
+    expect(
+      parseSetCookie(
+        "cookie=%E0%A4%A; Max-Age=soon; Expires=never; Path=relative; SameSite=Always; Domain=",
+      ),
+    ).toEqual({ name: "cookie", value: "%E0%A4%A" });
+    expect(parseSetCookie("no value")).toBeUndefined();
+    expect(parseSetCookie("bad name=macha")).toBeUndefined();
+  });
+
+  it("round-trips with serialize", () => {
+    const options = {
+      maxAge: 1000,
+      domain: "example.com",
+      path: "/",
+      expires: new Date(Date.UTC(2000, 11, 24, 10, 30, 59)),
+      httpOnly: true,
+      secure: true,
+      sameSite: "None",
+      partitioned: true,
+      priority: "High",
+      extensions: { Flavor: true, Topping: "Milk" },
+    } as const;
+    const cookie = serialize("cookie", "macha; latte", options);
+    const parsed = parseSetCookie(cookie)!;
+
+    expect(parsed).toEqual({
+      name: "cookie",
+      value: "macha; latte",
+      ...options,
+    });
+    expect(serialize(parsed.name, parsed.value, parsed)).toBe(cookie);
+  });
+
+  it("reads Set-Cookie headers", async () => {
+    const headers = new Headers();
+    setCookie(headers, "delicious_cookie", "macha");
+    await setSignedCookie(
+      headers,
+      "mango",
+      "secret lucky charm",
+      "fruit_cookie",
+    );
+    deleteCookie(headers, "delicious_cookie");
+
+    expect(getSetCookies(headers)).toEqual([
+      { name: "delicious_cookie", value: "macha", path: "/" },
+      {
+        name: "fruit_cookie",
+        value: "mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4=",
+        path: "/",
+      },
+      { name: "delicious_cookie", value: "", maxAge: 0, path: "/" },
+    ]);
+    expect(getSetCookies(headers, "fruit_cookie")).toHaveLength(1);
+  });
+});
+
+describe("Cookie prefixes", () => {
+  const secret = "secret lucky charm";
+
+  it("sets prefixed cookies", async () => {
+    const responseHeaders = new Headers();
+    setCookie(responseHeaders, "cookie", "macha", {
+      prefix: "host",
+      secure: true,
+    });
+    await setSignedCookie(responseHeaders, "mango", secret, "fruit_cookie", {
+      prefix: "secure",
+      secure: true,
+      domain: "example.com",
+    });
+
+    expect(responseHeaders.getSetCookie()).toEqual([
+      "__Host-cookie=macha; Path=/; Secure",
+      "__Secure-fruit_cookie=mango.UTWrbvv6q74I3YApF%2Foshd1AUVx%2FmX8Nc5%2Bx77sWD48%3D; Domain=example.com; Path=/; Secure",
+    ]);
+  });
+
+  it("rejects prefixed cookies without the required attributes", () => {
+    const headers = new Headers();
+    expect(() =>
+      // @ts-expect-error secure is required
+      setCookie(headers, "cookie", "macha", { prefix: "secure" }),
+    ).toThrow("Cookie __Secure-cookie must be secure");
+    expect(() =>
+      // @ts-expect-error host cookies cannot have a domain
+      setCookie(headers, "cookie", "macha", {
+        prefix: "host",
+        secure: true,
+        domain: "example.com",
+      }),
+    ).toThrow("Cookie __Host-cookie must have path / and no domain");
+    expect(() =>
+      // @ts-expect-error host cookies must have path /
+      setCookie(headers, "cookie", "macha", {
+        prefix: "host",
+        secure: true,
+        path: "/account",
+      }),
+    ).toThrow("Cookie __Host-cookie must have path / and no domain");
+    expect(() => setCookie(headers, "__HOST-cookie", "macha")).toThrow(
+      "Cookie __HOST-cookie must be secure",
+    );
+    expect(headers.getSetCookie()).toEqual([]);
+  });
+
+  it("reads only prefixed cookies", async () => {
+    const headers = new Headers({
+      Cookie:
+        "cookie=matcha; __Host-cookie=macha; __Secure-fruit_cookie=mango.UTWrbvv6q74I3YApF%2Foshd1AUVx%2FmX8Nc5%2Bx77sWD48%3D",
+    });
+
+    expect(getCookie(headers, "cookie", { prefix: "host" })).toBe("macha");
+    expect(getCookie(headers, "cookie", { prefix: "secure" })).toBeUndefined();
+    expect(getCookie(headers, undefined, { prefix: "host" })).toEqual({
+      cookie: "macha",
+    });
+    expect(
+      await getSignedCookie(headers, secret, "fruit_cookie", {
+        prefix: "secure",
+      }),
+    ).toBe("mango");
+    expect(await getSignedCookie(headers, secret, "fruit_cookie")).toBe(false);
+    expect(
+      await getSignedCookie(headers, secret, undefined, { prefix: "secure" }),
+    ).toEqual({ fruit_cookie: "mango" });
+  });
+
+  it("deletes prefixed cookies", () => {
+    const headers = new Headers();
+    deleteCookie(headers, "cookie", { prefix: "host", secure: true });
+
+    expect(headers.get("Set-Cookie")).toBe(
+      "__Host-cookie=; Max-Age=0; Path=/; Secure",
+    );
+  });
+});
+
+describe("Strict cookie serialization", () => {
+  const expectCookieError = (set: () => void, code: CookieError["code"]) => {
+    try {
+      set();
+    } catch (e) {
+      expect(e).toBeInstanceOf(CookieError);
+      expect((e as CookieError).code).toBe(code);
+      return;
+    }
+    throw new Error("Expected a CookieError");
+  };
+
+  it("rejects invalid names, domains and paths", () => {
+    const headers = new Headers();
+    expectCookieError(
+      () => setCookie(headers, "cookie; Domain=evil.com", "macha"),
+      "invalid_name",
+    );
+    expectCookieError(() => setCookie(headers, "", "macha"), "invalid_name");
+    expectCookieError(
+      () =>
+        setCookie(headers, "cookie", "macha", {
+          domain: "example.com; SameSite=None",
+        }),
+      "invalid_domain",
+    );
+    expectCookieError(
+      () =>
+        setCookie(headers, "cookie", "macha", { path: "/\r\nSet-Cookie: a=b" }),
+      "invalid_path",
+    );
+    expectCookieError(
+      () => setCookie(headers, "cookie", "macha", { path: "/; Secure" }),
+      "invalid_path",
+    );
+    expectCookieError(
+      () => setCookie(headers, "cookie", "macha", { sameSite: "None" }),
+      "insecure_same_site_none",
+    );
+    expect(headers.getSetCookie()).toEqual([]);
+  });
+
+  it("caps the lifetime of cookies at 400 days", () => {
+    setSystemTime(new Date(Date.UTC(2000, 11, 24, 10, 30, 59)));
+    try {
+      const headers = new Headers();
+      setCookie(headers, "cookie", "macha", {
+        maxAge: 500 * 24 * 60 * 60,
+        expires: new Date(Date.UTC(2010, 0, 1)),
+      });
+
+      expect(headers.get("Set-Cookie")).toBe(
+        "cookie=macha; Max-Age=34560000; Path=/; Expires=Mon, 28 Jan 2002 10:30:59 GMT",
+      );
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("does not validate cookies that are not strict", () => {
+    const headers = new Headers();
+    setCookie(headers, "cookie", "macha", {
+      strict: false,
+      maxAge: 500 * 24 * 60 * 60,
+      sameSite: "None",
+      domain: "localhost:3000",
+    });
+
+    expect(headers.get("Set-Cookie")).toBe(
+      "cookie=macha; Max-Age=43200000; Domain=localhost:3000; Path=/; SameSite=None",
+    );
+  });
+});
+
+describe("Cookie attributes", () => {
+  it("sets the priority and extension attributes", () => {
+    const headers = new Headers();
+    setCookie(headers, "cookie", "macha", {
+      priority: "High",
+      extensions: { Flavor: true, Topping: "Milk" },
+    });
+
+    expect(headers.get("Set-Cookie")).toBe(
+      "cookie=macha; Path=/; Priority=High; Flavor; Topping=Milk",
+    );
+  });
+
+  it("rejects invalid extension attributes", () => {
+    const invalidExtensions: Record<string, string | true>[] = [
+      { "Flavor; Secure": true },
+      { "Flavor=Macha": true },
+      { Topping: "Milk; Domain=evil.com" },
+      { Topping: "Milk\r\nSet-Cookie: a=b" },
+      { SECURE: true },
+      { "max-age": "10" },
+    ];
+    for (const extensions of invalidExtensions) {
+      expect(() =>
+        setCookie(new Headers(), "cookie", "macha", { extensions }),
+      ).toThrow(/^Invalid attribute for cookie cookie: /);
+    }
+  });
+});
+
+describe("Duplicate cookies", () => {
+  const secret = "secret lucky charm";
+  const signed = "mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D";
+  const forged = "banana.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D";
+
+  it("gets every value in header order", () => {
+    const headers = new Headers({
+      Cookie: "fruit_cookie=mango; other=macha; fruit_cookie=banana%20split",
+    });
+
+    expect(getAllCookies(headers, "fruit_cookie")).toEqual([
+      "mango",
+      "banana split",
+    ]);
+    expect(getAllCookies(headers, "missing")).toEqual([]);
+    expect(getAllCookies(new Headers(), "fruit_cookie")).toEqual([]);
+  });
+
+  it("reads duplicate signed cookies according to the policy", async () => {
+    const headers = new Headers({
+      Cookie: `fruit_cookie=${forged}; fruit_cookie=${signed}`,
+    });
+    const get = (duplicates?: DuplicatePolicy) =>
+      getSignedCookie(headers, secret, "fruit_cookie", { duplicates });
+
+    expect(await get()).toBe("mango");
+    expect(await get("last")).toBe("mango");
+    expect(await get("first")).toBe(false);
+    expect(await get("any-valid")).toBe("mango");
+    expect(await get("reject")).toBe(false);
+    expect(
+      await getSignedCookie(headers, secret, undefined, {
+        duplicates: "reject",
+      }),
+    ).toEqual({ fruit_cookie: false });
+  });
+
+  it("accepts identical duplicates when rejecting duplicates", async () => {
+    const headers = new Headers({
+      Cookie: `fruit_cookie=${signed}; fruit_cookie=${signed}`,
+    });
+
+    expect(
+      await getSignedCookie(headers, secret, "fruit_cookie", {
+        duplicates: "reject",
+      }),
+    ).toBe("mango");
+  });
+
+  it("reads duplicate sealed cookies according to the policy", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(responseHeaders, "macha", secret, "cookie");
+    const sealed = responseHeaders.get("Set-Cookie")!.split(";")[0];
+    const headers = new Headers({
+      Cookie: `${sealed}; cookie=not-sealed; ${sealed.replace("cookie=", "cookie=x")}`,
+    });
+    const get = (duplicates: DuplicatePolicy) =>
+      getSealedCookie(headers, secret, "cookie", { duplicates });
+
+    expect(await get("first")).toBe("macha");
+    expect(await get("last")).toBe(false);
+    expect(await get("any-valid")).toBe("macha");
+    expect(await get("reject")).toBe(false);
+  });
+});
+
+describe("Cookie encoding", () => {
+  const malformed = "bad=%E0%A4%A";
+
+  it("skips cookies that cannot be decoded", async () => {
+    const headers = new Headers({
+      Cookie: `${malformed}; yummy_cookie=choco; fruit_cookie=mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4%3D`,
+    });
+
+    expect(getCookie(headers)).toEqual({
+      yummy_cookie: "choco",
+      fruit_cookie: "mango.ayBZmEFqIwsK4TlkxForBs7qirXsor6UwT3H1VcBtn4=",
+    });
+    expect(getCookie(headers, "bad")).toBeUndefined();
+    expect(getAllCookies(headers, "bad")).toEqual([]);
+    expect(await getSignedCookie(headers, "secret lucky charm")).toEqual({
+      fruit_cookie: "mango",
+    });
+    expect(await getSealedCookie(headers, "secret lucky charm")).toEqual({});
+  });
+
+  it("reports cookies that cannot be decoded", () => {
+    const errors: [string, string][] = [];
+    const cookies = parse(`${malformed}; yummy_cookie=choco`, undefined, {
+      onDecodeError: (error, name) => errors.push([String(error), name]),
+    });
+
+    expect(cookies).toEqual({ yummy_cookie: "choco" });
+    expect(errors).toEqual([[expect.stringContaining("URIError"), "bad"]]);
+  });
+
+  it("uses custom encodings", () => {
+    const encode = (value: string) => btoa(value).replace(/=+$/, "");
+    const decode = (value: string) => atob(value);
+    const responseHeaders = new Headers();
+    setCookie(responseHeaders, "cookie", "macha; latte", { encode });
+
+    expect(responseHeaders.get("Set-Cookie")).toBe(
+      "cookie=bWFjaGE7IGxhdHRl; Path=/",
+    );
+    const headers = new Headers({ Cookie: "cookie=bWFjaGE7IGxhdHRl" });
+    expect(getCookie(headers, "cookie", { decode })).toBe("macha; latte");
+    expect(
+      parse("cookie=a%20b", "cookie", { decode: (value) => value }),
+    ).toEqual({ cookie: "a%20b" });
+  });
+
+  it("rejects values encoded into invalid characters", () => {
+    expect(() =>
+      setCookie(new Headers(), "cookie", "macha; latte", {
+        encode: (value) => value,
+      }),
+    ).toThrow("Invalid value for cookie cookie");
+  });
+});
+
+describe("Cookie definitions", () => {
+  it("sets, gets and deletes sealed cookies", async () => {
+    type Session = { userId: string };
+    const session = defineCookie({
+      name: "session",
+      kind: "sealed",
+      secret: "secret choco chips",
+      options: { prefix: "host", secure: true, httpOnly: true, ttl: 3600 },
+      codec: jsonCodec(
+        (value): value is Session =>
+          typeof (value as Session)?.userId === "string",
+      ),
+    });
+
+    const responseHeaders = new Headers();
+    await session.set(responseHeaders, { userId: "123" });
+    expect(responseHeaders.get("Set-Cookie")).toMatch(
+      /^__Host-session=[^;]+; Path=\/; HttpOnly; Secure$/,
+    );
+
+    const value: Session | undefined = await session.get(
+      requestHeaders(responseHeaders),
+    );
+    expect(value).toEqual({ userId: "123" });
+    expect(await session.get(new Headers())).toBeUndefined();
+
+    const deleteHeaders = new Headers();
+    session.delete(deleteHeaders);
+    expect(deleteHeaders.get("Set-Cookie")).toBe(
+      "__Host-session=; Max-Age=0; Path=/; HttpOnly; Secure",
+    );
+  });
+
+  it("sets and gets signed cookies", async () => {
+    const theme = defineCookie({
+      name: "theme",
+      kind: "signed",
+      secret: ["secret chocolate chips", "secret lucky charm"],
+      options: { path: "/app", sameSite: "Lax" },
+    });
+
+    const responseHeaders = new Headers();
+    await theme.set(responseHeaders, "dark");
+    expect(responseHeaders.get("Set-Cookie")).toMatch(
+      /^theme=dark\.[^;]+; Path=\/app; SameSite=Lax$/,
+    );
+    const value: string | undefined = await theme.get(
+      requestHeaders(responseHeaders),
+    );
+    expect(value).toBe("dark");
+    expect(
+      await theme.get(new Headers({ Cookie: "theme=dark.invalid" })),
+    ).toBeUndefined();
+
+    const deleteHeaders = new Headers();
+    theme.delete(deleteHeaders);
+    expect(deleteHeaders.get("Set-Cookie")).toBe(
+      "theme=; Max-Age=0; Path=/app; SameSite=Lax",
+    );
+  });
+
+  it("sets and gets plain cookies", async () => {
+    const visits = defineCookie({
+      name: "visits",
+      kind: "plain",
+      codec: jsonCodec((value): value is number => typeof value === "number"),
+    });
+
+    const responseHeaders = new Headers();
+    await visits.set(responseHeaders, 3);
+    expect(responseHeaders.get("Set-Cookie")).toBe("visits=3; Path=/");
+    expect(await visits.get(requestHeaders(responseHeaders))).toBe(3);
+    expect(
+      await visits.get(new Headers({ Cookie: "visits=three" })),
+    ).toBeUndefined();
+  });
+});
+
+describe("Cookie jar", () => {
+  it("collapses writes to the same cookie", () => {
+    const jar = createCookieJar(new Headers());
+    setCookie(jar.headers, "theme", "light");
+    setCookie(jar.headers, "theme", "dark");
+    setCookie(jar.headers, "theme", "dark", { path: "/app" });
+    setCookie(jar.headers, "lang", "en");
+    deleteCookie(jar.headers, "lang");
+
+    const responseHeaders = new Headers();
+    jar.commit(responseHeaders);
+    expect(responseHeaders.getSetCookie()).toEqual([
+      "theme=dark; Path=/",
+      "theme=dark; Path=/app",
+      "lang=; Max-Age=0; Path=/",
+    ]);
+  });
+
+  it("reads the request cookies and the written cookies", async () => {
+    const jar = createCookieJar(
+      new Headers({ Cookie: "theme=light; lang=en; a=b" }),
+    );
+    expect(getCookie(jar.headers, "theme")).toBe("light");
+
+    setCookie(jar.headers, "theme", "dark");
+    deleteCookie(jar.headers, "lang");
+    await setSignedCookie(jar.headers, "1", "secret", "user");
+    expect(getCookie(jar.headers, "theme")).toBe("dark");
+    expect(getCookie(jar.headers, "lang")).toBeUndefined();
+    expect(getCookie(jar.headers, "a")).toBe("b");
+    expect(await getSignedCookie(jar.headers, "secret", "user")).toBe("1");
+
+    jar.commit(new Headers());
+    expect(getCookie(jar.headers, "theme")).toBe("dark");
+    setCookie(jar.headers, "lang", "nl");
+    deleteCookie(jar.headers, "user");
+    expect(jar.headers.get("Cookie")).toBe("a=b; theme=dark; lang=nl");
+  });
+
+  it("keeps cookies written for other paths", () => {
+    const jar = createCookieJar(new Headers({ Cookie: "a=1" }));
+    setCookie(jar.headers, "a", "2");
+    deleteCookie(jar.headers, "a", { path: "/x" });
+    expect(getCookie(jar.headers, "a")).toBe("2");
+
+    deleteCookie(jar.headers, "a");
+    expect(getCookie(jar.headers, "a")).toBeUndefined();
+  });
+
+  it("does not commit cookies twice", () => {
+    const jar = createCookieJar(new Headers());
+    setCookie(jar.headers, "theme", "dark");
+    expect(jar.getSetCookie()).toEqual(["theme=dark; Path=/"]);
+
+    const responseHeaders = new Headers();
+    jar.commit(responseHeaders);
+    jar.commit(responseHeaders);
+    expect(responseHeaders.getSetCookie()).toEqual(["theme=dark; Path=/"]);
+    expect(jar.getSetCookie()).toEqual([]);
+  });
+
+  it("commits to responses", async () => {
+    const jar = createCookieJar(new Headers());
+    setCookie(jar.headers, "theme", "dark");
+    const response = new Response("hi", { headers: { "X-Test": "1" } });
+    expect(jar.commit(response)).toBe(response);
+    expect(response.headers.getSetCookie()).toEqual(["theme=dark; Path=/"]);
+  });
+
+  it("copies responses with immutable headers", async () => {
+    const jar = createCookieJar(new Headers());
+    setCookie(jar.headers, "theme", "dark");
+    const response = new Response("hi", {
+      status: 201,
+      headers: { "X-Test": "1" },
+    });
+    spyOn(response.headers, "append").mockImplementation(() => {
+      throw new TypeError("Headers are immutable");
+    });
+
+    const committed = jar.commit(response);
+    expect(committed).not.toBe(response);
+    expect(committed.status).toBe(201);
+    expect(committed.headers.get("X-Test")).toBe("1");
+    expect(committed.headers.getSetCookie()).toEqual(["theme=dark; Path=/"]);
+    expect(await committed.text()).toBe("hi");
+  });
+});
+
+describe("Node adapters", () => {
+  function createNodeRequest(headers: Record<string, string | string[]>) {
+    const req = new IncomingMessage(new Socket());
+    req.headers = headers;
+    return req;
+  }
+
+  it("reads cookies from node requests", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "1", "secret", "user");
+    await setSealedCookie(responseHeaders, "2", "secret", "session");
+    const cookie = requestHeaders(responseHeaders).get("Cookie");
+    const req = createNodeRequest({ cookie: `theme=dark; ${cookie}` });
+
+    const headers = fromNodeRequest(req);
+    expect(getCookie(headers, "theme")).toBe("dark");
+    expect(await getSignedCookie(headers, "secret", "user")).toBe("1");
+    expect(await getSealedCookie(headers, "secret", "session")).toBe("2");
+  });
+
+  it("appends cookies to node responses", () => {
+    const res = new ServerResponse(createNodeRequest({}));
+    res.setHeader("set-cookie", "existing=1; Path=/");
+
+    const headers = fromNodeResponse(res);
+    setCookie(headers, "theme", "dark");
+    deleteCookie(headers, "lang");
+    expect(res.getHeader("set-cookie")).toEqual([
+      "existing=1; Path=/",
+      "theme=dark; Path=/",
+      "lang=; Max-Age=0; Path=/",
+    ]);
+  });
+
+  it("commits cookie jars to node responses", () => {
+    const req = createNodeRequest({ cookie: "theme=light" });
+    const res = new ServerResponse(req);
+
+    const jar = createCookieJar(fromNodeRequest(req));
+    setCookie(jar.headers, "theme", "dark");
+    setCookie(jar.headers, "theme", "light");
+    jar.commit(fromNodeResponse(res));
+    expect(res.getHeader("set-cookie")).toEqual(["theme=light; Path=/"]);
+  });
+});
+
+describe("Sessions", () => {
+  type User = { userId: string };
+  const secret = "secret choco chips that are long enough";
+  it("loads and saves sessions", async () => {
+    const session = await createSession<User>(new Headers(), {
+      name: "session",
+      secret,
+    });
+    expect(session.isNew).toBe(true);
+    expect(session.get()).toBeUndefined();
+
+    session.set({ userId: "123" });
+    expect(session.isModified).toBe(true);
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    expect(session.isModified).toBe(false);
+    expect(responseHeaders.get("Set-Cookie")).toMatch(
+      /^session=[^;]+; Path=\/$/,
+    );
+
+    const loaded = await createSession<User>(requestHeaders(responseHeaders), {
+      name: "session",
+      secret,
+    });
+    expect(loaded.isNew).toBe(false);
+    expect(loaded.get()).toEqual({ userId: "123" });
+  });
+
+  it("only saves modified sessions", async () => {
+    const responseHeaders = new Headers();
+    const session = await createSession<User>(new Headers(), {
+      name: "session",
+      secret,
+    });
+    await session.commit(responseHeaders);
+    session.set({ userId: "123" });
+    await session.commit(responseHeaders);
+
+    const loaded = await createSession<User>(requestHeaders(responseHeaders), {
+      name: "session",
+      secret,
+    });
+    const loadedHeaders = new Headers();
+    await loaded.commit(loadedHeaders);
+    expect(responseHeaders.getSetCookie()).toHaveLength(1);
+    expect(loadedHeaders.getSetCookie()).toEqual([]);
+  });
+
+  it("ignores sessions that cannot be read", async () => {
+    const session = await createSession<User>(
+      new Headers({ Cookie: "session=invalid" }),
+      {
+        name: "session",
+        secret,
+        codec: jsonCodec(
+          (value): value is User => typeof (value as User)?.userId === "string",
+        ),
+      },
+    );
+    expect(session.isNew).toBe(true);
+
+    const responseHeaders = new Headers();
+    await setSealedCookie(responseHeaders, "{}", secret, "other");
+    const other = await createSession<User>(requestHeaders(responseHeaders), {
+      name: "other",
+      secret,
+    });
+    expect(other.isNew).toBe(true);
+  });
+
+  it("rolls the expiration up to the absolute maximum", async () => {
+    const options = {
+      name: "session",
+      secret,
+      maxAge: 60,
+      rolling: true,
+      absoluteMaxAge: 150,
+    };
+    const start = Date.UTC(2030, 0, 1);
+    try {
+      setSystemTime(new Date(start));
+      const session = await createSession<User>(new Headers(), options);
+      session.set({ userId: "123" });
+      let responseHeaders = new Headers();
+      await session.commit(responseHeaders);
+      expect(responseHeaders.get("Set-Cookie")).toContain("Max-Age=60");
+
+      // unchanged sessions are saved again to move the expiration forward
+      for (const [elapsed, maxAge] of [
+        [50, 60],
+        [100, 50],
+      ] as const) {
+        setSystemTime(new Date(start + elapsed * 1000));
+        const loaded = await createSession<User>(
+          requestHeaders(responseHeaders),
+          options,
+        );
+        expect(loaded.get()).toEqual({ userId: "123" });
+        responseHeaders = new Headers();
+        await loaded.commit(responseHeaders);
+        expect(responseHeaders.get("Set-Cookie")).toContain(
+          `Max-Age=${maxAge}`,
+        );
+      }
+
+      setSystemTime(new Date(start + 150 * 1000));
+      const expired = await createSession<User>(
+        requestHeaders(responseHeaders),
+        options,
+      );
+      expect(expired.isNew).toBe(true);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("expires sessions that are not rolling", async () => {
+    const options = { name: "session", secret, maxAge: 60 };
+    const start = Date.UTC(2030, 0, 1);
+    try {
+      setSystemTime(new Date(start));
+      const session = await createSession<User>(new Headers(), options);
+      session.set({ userId: "123" });
+      const responseHeaders = new Headers();
+      await session.commit(responseHeaders);
+
+      setSystemTime(new Date(start + 30 * 1000));
+      const loaded = await createSession<User>(
+        requestHeaders(responseHeaders),
+        options,
+      );
+      loaded.set({ userId: "456" });
+      const loadedHeaders = new Headers();
+      await loaded.commit(loadedHeaders);
+      expect(loadedHeaders.get("Set-Cookie")).toContain("Max-Age=30");
+
+      setSystemTime(new Date(start + 60 * 1000));
+      const expired = await createSession<User>(
+        requestHeaders(loadedHeaders),
+        options,
+      );
+      expect(expired.isNew).toBe(true);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("expires sessions with the given clock", async () => {
+    let time = Date.UTC(2000, 0, 1);
+    const options = {
+      name: "session",
+      secret,
+      maxAge: 60,
+      absoluteMaxAge: 90,
+      now: () => time,
+    };
+    const session = await createSession<User>(new Headers(), options);
+    session.set({ userId: "123" });
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    expect(responseHeaders.get("Set-Cookie")).toContain("Max-Age=60");
+
+    time += 30 * 1000;
+    const loaded = await createSession<User>(
+      requestHeaders(responseHeaders),
+      options,
+    );
+    expect(loaded.get()).toEqual({ userId: "123" });
+    loaded.set({ userId: "456" });
+    const loadedHeaders = new Headers();
+    await loaded.commit(loadedHeaders);
+    expect(loadedHeaders.get("Set-Cookie")).toContain("Max-Age=30");
+
+    time += 30 * 1000;
+    const expired = await createSession<User>(
+      requestHeaders(loadedHeaders),
+      options,
+    );
+    expect(expired.isNew).toBe(true);
+  });
+
+  it("regenerates and destroys sessions", async () => {
+    const responseHeaders = new Headers();
+    const session = await createSession<User>(new Headers(), {
+      name: "session",
+      secret,
+    });
+    session.set({ userId: "123" });
+    await session.commit(responseHeaders);
+
+    const regenerated = await createSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret },
+    );
+    regenerated.regenerate();
+    expect(regenerated.get()).toBeUndefined();
+    regenerated.set({ userId: "456" });
+    const regeneratedHeaders = new Headers();
+    await regenerated.commit(regeneratedHeaders);
+    const [deleted, created] = regeneratedHeaders.getSetCookie();
+    expect(deleted).toBe("session=; Max-Age=0; Path=/");
+    expect(created).toMatch(/^session=[^;]+; Path=\/$/);
+
+    const destroyed = await createSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret },
+    );
+    destroyed.destroy();
+    const destroyedHeaders = new Headers();
+    await destroyed.commit(destroyedHeaders);
+    expect(destroyedHeaders.getSetCookie()).toEqual([
+      "session=; Max-Age=0; Path=/",
+    ]);
+  });
+});
+
+describe("Stored sessions", () => {
+  type User = { userId: string; role?: string };
+  const secret = "secret choco chips that are long enough";
+  it("keeps only the session id in the cookie", async () => {
+    const storage = createMemoryStorage();
+    const session = await createStoredSession<User>(new Headers(), {
+      name: "session",
+      secret,
+      storage,
+    });
+    expect(session.isNew).toBe(true);
+    session.set({ userId: "123" });
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+
+    const [, id, signature] =
+      responseHeaders.get("Set-Cookie")!.match(/^session=([^.]+)\.([^;]+);/) ??
+      [];
+    expect(id).toBe(session.id);
+    expect(signature).toBeDefined();
+    expect(await storage.get(`session:${session.id}`)).toBeDefined();
+
+    const loaded = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    expect(loaded.isNew).toBe(false);
+    expect(loaded.id).toBe(session.id);
+    expect(loaded.get()).toEqual({ userId: "123" });
+
+    // modifying the session only updates the storage
+    loaded.set({ userId: "456" });
+    const loadedHeaders = new Headers();
+    await loaded.commit(loadedHeaders);
+    expect(loadedHeaders.getSetCookie()).toEqual([]);
+    const reloaded = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    expect(reloaded.get()).toEqual({ userId: "456" });
+  });
+
+  it("stores sealed session ids", async () => {
+    const storage = createMemoryStorage();
+    const session = await createStoredSession<User>(new Headers(), {
+      name: "session",
+      kind: "sealed",
+      secret,
+      storage,
+    });
+    session.set({ userId: "123" });
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    expect(responseHeaders.get("Set-Cookie")).not.toContain(session.id);
+
+    const loaded = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", kind: "sealed", secret, storage },
+    );
+    expect(loaded.get()).toEqual({ userId: "123" });
+  });
+
+  it("ignores unknown and forged session ids", async () => {
+    const storage = createMemoryStorage();
+    const session = await createStoredSession<User>(
+      new Headers({ Cookie: "session=abc.def" }),
+      { name: "session", secret, storage },
+    );
+    expect(session.isNew).toBe(true);
+
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "abc", secret, "session");
+    const unknown = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    expect(unknown.isNew).toBe(true);
+    expect(unknown.id).not.toBe("abc");
+  });
+
+  it("rotates session ids", async () => {
+    const storage = createMemoryStorage();
+    const session = await createStoredSession<User>(new Headers(), {
+      name: "session",
+      secret,
+      storage,
+    });
+    session.set({ userId: "123" });
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    const oldId = session.id;
+
+    const loaded = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    loaded.set({ userId: "123", role: "admin" });
+    loaded.rotate();
+    const rotatedHeaders = new Headers();
+    await loaded.commit(rotatedHeaders);
+    expect(loaded.id).not.toBe(oldId);
+    expect(await storage.get(`session:${oldId}`)).toBeUndefined();
+
+    const old = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    expect(old.isNew).toBe(true);
+    const rotated = await createStoredSession<User>(
+      requestHeaders(rotatedHeaders),
+      { name: "session", secret, storage },
+    );
+    expect(rotated.get()).toEqual({ userId: "123", role: "admin" });
+  });
+
+  it("destroys sessions", async () => {
+    const storage = createMemoryStorage();
+    const session = await createStoredSession<User>(new Headers(), {
+      name: "session",
+      secret,
+      storage,
+    });
+    session.set({ userId: "123" });
+    const responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    const id = session.id;
+
+    const loaded = await createStoredSession<User>(
+      requestHeaders(responseHeaders),
+      { name: "session", secret, storage },
+    );
+    loaded.destroy();
+    const destroyedHeaders = new Headers();
+    await loaded.commit(destroyedHeaders);
+    expect(destroyedHeaders.getSetCookie()).toEqual([
+      "session=; Max-Age=0; Path=/",
+    ]);
+    expect(await storage.get(`session:${id}`)).toBeUndefined();
+  });
+
+  it("invalidates all sessions of a user", async () => {
+    const storage = createMemoryStorage();
+    const options = {
+      name: "session",
+      secret,
+      storage,
+      getUserId: (user: User) => user.userId,
+    };
+    const start = Date.UTC(2030, 0, 1);
+    try {
+      setSystemTime(new Date(start));
+      const sessions = [];
+      for (const userId of ["123", "123", "456"]) {
+        const session = await createStoredSession<User>(new Headers(), options);
+        session.set({ userId });
+        const responseHeaders = new Headers();
+        await session.commit(responseHeaders);
+        sessions.push(requestHeaders(responseHeaders));
+      }
+
+      setSystemTime(new Date(start + 1000));
+      await invalidateUserSessions(storage, "123");
+      const loaded = await Promise.all(
+        sessions.map((headers) => createStoredSession<User>(headers, options)),
+      );
+      expect(loaded.map((session) => session.get())).toEqual([
+        undefined,
+        undefined,
+        { userId: "456" },
+      ]);
+
+      // sessions created after the invalidation are kept
+      const session = await createStoredSession<User>(new Headers(), options);
+      session.set({ userId: "123" });
+      const responseHeaders = new Headers();
+      await session.commit(responseHeaders);
+      const loggedIn = await createStoredSession<User>(
+        requestHeaders(responseHeaders),
+        options,
+      );
+      expect(loggedIn.get()).toEqual({ userId: "123" });
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("expires idle sessions and caps rolling sessions", async () => {
+    const storage = createMemoryStorage();
+    const options = {
+      name: "session",
+      secret,
+      storage,
+      maxAge: 60,
+      rolling: true,
+      absoluteMaxAge: 100,
+    };
+    const start = Date.UTC(2030, 0, 1);
+    try {
+      setSystemTime(new Date(start));
+      const session = await createStoredSession<User>(new Headers(), options);
+      session.set({ userId: "123" });
+      let responseHeaders = new Headers();
+      await session.commit(responseHeaders);
+      const headers = requestHeaders(responseHeaders);
+
+      setSystemTime(new Date(start + 50 * 1000));
+      const touched = await createStoredSession<User>(headers, options);
+      expect(touched.get()).toEqual({ userId: "123" });
+      responseHeaders = new Headers();
+      await touched.commit(responseHeaders);
+      expect(responseHeaders.get("Set-Cookie")).toContain("Max-Age=50");
+
+      setSystemTime(new Date(start + 99 * 1000));
+      expect((await createStoredSession<User>(headers, options)).isNew).toBe(
+        false,
+      );
+      setSystemTime(new Date(start + 100 * 1000));
+      expect((await createStoredSession<User>(headers, options)).isNew).toBe(
+        true,
+      );
+
+      const idle = await createStoredSession<User>(new Headers(), options);
+      idle.set({ userId: "123" });
+      responseHeaders = new Headers();
+      await idle.commit(responseHeaders);
+      setSystemTime(new Date(start + 160 * 1000));
+      expect(
+        (
+          await createStoredSession<User>(
+            requestHeaders(responseHeaders),
+            options,
+          )
+        ).isNew,
+      ).toBe(true);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  it("expires sessions with the given clock", async () => {
+    const storage = createMemoryStorage();
+    const start = Date.UTC(2000, 0, 1);
+    let time = start;
+    const options = {
+      name: "session",
+      secret,
+      storage,
+      maxAge: 60,
+      rolling: true,
+      absoluteMaxAge: 90,
+      getUserId: (user: User) => user.userId,
+      now: () => time,
+    };
+    const session = await createStoredSession<User>(new Headers(), options);
+    session.set({ userId: "123" });
+    let responseHeaders = new Headers();
+    await session.commit(responseHeaders);
+    expect(responseHeaders.get("Set-Cookie")).toContain("Max-Age=60");
+    const headers = requestHeaders(responseHeaders);
+
+    time += 50 * 1000;
+    const touched = await createStoredSession<User>(headers, options);
+    expect(touched.get()).toEqual({ userId: "123" });
+    responseHeaders = new Headers();
+    await touched.commit(responseHeaders);
+    expect(responseHeaders.get("Set-Cookie")).toContain("Max-Age=40");
+
+    // sessions invalidated before they were created are kept
+    await invalidateUserSessions(storage, "123", { now: () => start - 1 });
+    expect((await createStoredSession<User>(headers, options)).isNew).toBe(
+      false,
+    );
+    time += 40 * 1000;
+    expect((await createStoredSession<User>(headers, options)).isNew).toBe(
+      true,
+    );
+  });
+
+  it("stores sessions in key-value stores", async () => {
+    const values = new Map<string, { value: string; ttl?: number }>();
+    const storage = createKeyValueStorage(
+      {
+        get: async (key) => values.get(key)?.value ?? null,
+        set: async (key, value, opt) => {
+          values.set(key, { value, ttl: opt?.ttl });
+        },
+        delete: async (key) => values.delete(key),
+      },
+      { prefix: "app:" },
+    );
+
+    await storage.set("a", "1", 60);
+    expect(values.get("app:a")).toEqual({ value: "1", ttl: 60 });
+    expect(await storage.get("a")).toBe("1");
+    expect(await storage.get("b")).toBeUndefined();
+    await storage.touch("a", 120);
+    expect(values.get("app:a")).toEqual({ value: "1", ttl: 120 });
+    await storage.touch("b", 120);
+    expect(values.has("app:b")).toBe(false);
+    await storage.delete("a");
+    expect(values.size).toBe(0);
+  });
+});
+
+describe("CSRF protection", () => {
+  const options = { secret: "secret choco chips" };
+
+  async function issue(sessionId = "session-1") {
+    const responseHeaders = new Headers();
+    const token = await issueCsrfToken(
+      new Headers(),
+      responseHeaders,
+      sessionId,
+      options,
+    );
+    const cookie = responseHeaders.get("Set-Cookie")!.split(";")[0]!;
+    return { token, cookie };
+  }
+
+  it("issues tokens", async () => {
+    const responseHeaders = new Headers();
+    const token = await issueCsrfToken(
+      new Headers(),
+      responseHeaders,
+      "session-1",
+      options,
+    );
+    expect(token).toMatch(/^[\w-]{43}\.[\w-]{43}$/);
+    expect(responseHeaders.get("Set-Cookie")).toBe(`csrf=${token}; Path=/`);
+
+    // valid tokens are reused
+    const reusedHeaders = new Headers();
+    expect(
+      await issueCsrfToken(
+        new Headers({ Cookie: `csrf=${token}` }),
+        reusedHeaders,
+        "session-1",
+        options,
+      ),
+    ).toBe(token);
+    expect(reusedHeaders.get("Set-Cookie")).toBeNull();
+
+    // tokens of other sessions are replaced
+    expect(
+      await issueCsrfToken(
+        new Headers({ Cookie: `csrf=${token}` }),
+        new Headers(),
+        "session-2",
+        options,
+      ),
+    ).not.toBe(token);
+  });
+
+  it("verifies tokens submitted in headers", async () => {
+    const { token, cookie } = await issue();
+    const request = (headers: Record<string, string>) =>
+      new Request("https://example.com/", { method: "POST", headers });
+
+    expect(
+      await verifyCsrfRequest(
+        request({ Cookie: cookie, "X-CSRF-Token": token }),
+        "session-1",
+        options,
+      ),
+    ).toBe(true);
+    expect(
+      await verifyCsrfRequest(
+        request({ Cookie: cookie }),
+        "session-1",
+        options,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyCsrfRequest(
+        request({ Cookie: cookie, "X-CSRF-Token": `${token}x` }),
+        "session-1",
+        options,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyCsrfRequest(
+        request({ Cookie: cookie, "X-CSRF-Token": token }),
+        "session-2",
+        options,
+      ),
+    ).toBe(false);
+
+    // tokens must be signed, not only equal to the cookie
+    const forged = `${token.split(".")[0]}.${"a".repeat(43)}`;
+    expect(
+      await verifyCsrfRequest(
+        request({ Cookie: `csrf=${forged}`, "X-CSRF-Token": forged }),
+        "session-1",
+        options,
+      ),
+    ).toBe(false);
+  });
+
+  it("verifies tokens submitted in forms", async () => {
+    const { token, cookie } = await issue();
+    const request = new Request("https://example.com/", {
+      method: "POST",
+      headers: { Cookie: cookie },
+      body: new URLSearchParams({ csrf_token: token, name: "macha" }),
+    });
+    expect(await verifyCsrfRequest(request, "session-1", options)).toBe(true);
+    expect((await request.formData()).get("name")).toBe("macha");
+  });
+
+  it("skips safe methods", async () => {
+    const request = new Request("https://example.com/", { method: "DELETE" });
+    expect(await verifyCsrfRequest(request, "session-1", options)).toBe(false);
+    expect(
+      await verifyCsrfRequest(
+        new Request("https://example.com/"),
+        "session-1",
+        options,
+      ),
+    ).toBe(true);
+    expect(
+      await verifyCsrfRequest(request, "session-1", {
+        ...options,
+        safeMethods: ["GET", "DELETE"],
+      }),
+    ).toBe(true);
+    expect(
+      await verifyCsrfRequest(request, "session-1", {
+        ...options,
+        safeMethods: ["get", "delete"],
+      }),
+    ).toBe(true);
+  });
+
+  it("checks the origin of requests", async () => {
+    const { token, cookie } = await issue();
+    const request = (headers: Record<string, string>) =>
+      new Request("https://example.com/", {
+        method: "POST",
+        headers: { Cookie: cookie, "X-CSRF-Token": token, ...headers },
+      });
+
+    for (const [headers, allowed] of [
+      [{ Origin: "https://example.com" }, true],
+      [{ Origin: "https://evil.com" }, false],
+      [{ Origin: "null" }, false],
+      [{ Referer: "https://example.com/form" }, true],
+      [{ Referer: "https://evil.com/form" }, false],
+      [{ Origin: "https://app.example.com" }, true],
+    ] as const) {
+      expect(
+        await verifyCsrfRequest(request(headers), "session-1", {
+          ...options,
+          allowedOrigins: ["https://app.example.com"],
+        }),
+      ).toBe(allowed);
+    }
+  });
+
+  it("verifies tokens signed with rotated secrets", async () => {
+    const { token, cookie } = await issue();
+    const request = new Request("https://example.com/", {
+      method: "POST",
+      headers: { Cookie: cookie, "X-CSRF-Token": token },
+    });
+    expect(
+      await verifyCsrfRequest(request, "session-1", {
+        secret: ["new secret choco chips", options.secret],
+      }),
+    ).toBe(true);
+  });
+
+  it("records the signature algorithm in tokens", async () => {
+    const hs512Options = { ...options, algorithm: "HS512" as const };
+    const token = await issueCsrfToken(
+      new Headers(),
+      new Headers(),
+      "session-1",
+      hs512Options,
+    );
+    expect(token).toMatch(/^HS512\.[\w-]{43}\.[\w-]{86}$/);
+
+    const request = new Request("https://example.com/", {
+      method: "POST",
+      headers: { Cookie: `csrf=${token}`, "X-CSRF-Token": token },
+    });
+    expect(await verifyCsrfRequest(request, "session-1", hs512Options)).toBe(
+      true,
+    );
+    // tokens are verified with the algorithm they record
+    expect(await verifyCsrfRequest(request, "session-1", options)).toBe(true);
+  });
+});
+
+describe("Flash messages", () => {
+  const options = { secret: "secret choco chips" };
+  it("reads messages once", async () => {
+    const responseHeaders = new Headers();
+    await flash(responseHeaders, "success", "Saved", options);
+    await flash(responseHeaders, "errors", ["Name is required"], options);
+    expect(responseHeaders.getSetCookie()[0]).toMatch(
+      /^flash-success=%22Saved%22\.[^;]+; Path=\/$/,
+    );
+
+    const headers = requestHeaders(responseHeaders);
+    headers.set("Cookie", `${headers.get("Cookie")}; theme=dark`);
+    const nextHeaders = new Headers();
+    const messages = await consumeFlash<{
+      success: string;
+      errors: string[];
+    }>(headers, nextHeaders, options);
+    expect(messages).toEqual({
+      success: "Saved",
+      errors: ["Name is required"],
+    });
+    expect(nextHeaders.getSetCookie()).toEqual([
+      "flash-success=; Max-Age=0; Path=/",
+      "flash-errors=; Max-Age=0; Path=/",
+    ]);
+  });
+
+  it("deletes forged messages", async () => {
+    const responseHeaders = new Headers();
+    const messages = await consumeFlash(
+      new Headers({ Cookie: "flash-success=%22Paid%22" }),
+      responseHeaders,
+      options,
+    );
+    expect(messages).toEqual({});
+    expect(responseHeaders.getSetCookie()).toEqual([
+      "flash-success=; Max-Age=0; Path=/",
+    ]);
+  });
+
+  it("does nothing without messages", async () => {
+    const responseHeaders = new Headers();
+    expect(await consumeFlash(new Headers(), responseHeaders, options)).toEqual(
+      {},
+    );
+    expect(responseHeaders.getSetCookie()).toEqual([]);
+  });
+
+  it("uses cookie options", async () => {
+    const flashOptions = {
+      ...options,
+      name: "notice",
+      prefix: "host",
+      secure: true,
+    } as const;
+    const responseHeaders = new Headers();
+    await flash(responseHeaders, "info", { count: 2 }, flashOptions);
+    expect(responseHeaders.get("Set-Cookie")).toMatch(
+      /^__Host-notice-info=[^;]+; Path=\/; Secure$/,
+    );
+
+    const nextHeaders = new Headers();
+    expect(
+      await consumeFlash(
+        requestHeaders(responseHeaders),
+        nextHeaders,
+        flashOptions,
+      ),
+    ).toEqual({ info: { count: 2 } });
+    expect(nextHeaders.get("Set-Cookie")).toBe(
+      "__Host-notice-info=; Max-Age=0; Path=/; Secure",
+    );
+  });
+});
+
+describe("Cookie binding", () => {
+  const secret = "secret choco chips that are long enough";
+  const cookieValue = (responseHeaders: Headers) =>
+    responseHeaders.get("Set-Cookie")!.split(";")[0]!.split("=")[1]!;
+
+  it("binds signed values to the cookie name", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "admin", secret, "role");
+    const value = cookieValue(responseHeaders);
+
+    const headers = new Headers({ Cookie: `role=${value}; plan=${value}` });
+    expect(await getSignedCookie(headers, secret)).toEqual({
+      role: "admin",
+      plan: false,
+    });
+  });
+
+  it("binds sealed values to the cookie name", async () => {
+    for (const format of ["legacy", "iron", "gcm"] as const) {
+      const responseHeaders = new Headers();
+      await setSealedCookie(responseHeaders, "admin", secret, "role", {
+        format,
+      });
+      const value = cookieValue(responseHeaders);
+
+      const headers = new Headers({ Cookie: `role=${value}; plan=${value}` });
+      expect(await getSealedCookie(headers, secret)).toEqual({
+        role: "admin",
+        plan: false,
+      });
+    }
+  });
+
+  it("binds values to the cookie prefix", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "admin", secret, "role", {
+      prefix: "host",
+      secure: true,
+    });
+    const value = cookieValue(responseHeaders);
+
+    const headers = new Headers({
+      Cookie: `__Host-role=${value}; role=${value}`,
+    });
+    expect(
+      await getSignedCookie(headers, secret, "role", { prefix: "host" }),
+    ).toBe("admin");
+    expect(await getSignedCookie(headers, secret, "role")).toBe(false);
+  });
+
+  it("binds values to the purpose", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "1", secret, "user", {
+      purpose: "app-a",
+    });
+    await setSealedCookie(responseHeaders, "1", secret, "session", {
+      purpose: "app-a",
+    });
+    const headers = new Headers({
+      Cookie: responseHeaders
+        .getSetCookie()
+        .map((cookie) => cookie.split(";")[0])
+        .join("; "),
+    });
+
+    for (const [purpose, valid] of [
+      ["app-a", true],
+      ["app-b", false],
+      [undefined, false],
+    ] as const) {
+      expect(await getSignedCookie(headers, secret, "user", { purpose })).toBe(
+        valid && "1",
+      );
+      expect(
+        await getSealedCookie(headers, secret, "session", { purpose }),
+      ).toBe(valid && "1");
+    }
+  });
+
+  it("reads unbound values when allowed", async () => {
+    // signed and sealed before values were bound to the cookie name
+    const headers = new Headers({
+      Cookie:
+        "fortune_cookie=lots-of-money.UO6vMygDM6NCDU4LdvBnzdVb2Xcdj+h+ZTnmS8X7iH8%3D; delicious_cookie=8a5d7b4a8dcfb3ac0913c2b5ccbbab0edd92eb3f4310f3855795fd3f5627a971*yWLj-68VC_pBNO5IEVSLnQ*Me1qiB1z2QzHNgyiOffxmg*6a86ee89ab37c2ba412fc5c209c3b410ae74b4bc58252e3c243105e29f886b70*u2aXeBW7u_GxzBZegqec4DLQ7EUBu8jd2E4LhETUk9M",
+    });
+
+    expect(
+      await getSignedCookie(headers, "secret lucky charm", "fortune_cookie"),
+    ).toBe(false);
+    expect(
+      await getSignedCookieInfo(
+        headers,
+        "secret lucky charm",
+        "fortune_cookie",
+        { allowUnbound: true },
+      ),
+    ).toEqual({ value: "lots-of-money", secretIndex: 0, stale: true });
+
+    expect(await getSealedCookie(headers, "secret", "delicious_cookie")).toBe(
+      false,
+    );
+    expect(
+      await getSealedCookieInfo(headers, "secret", "delicious_cookie", {
+        allowUnbound: true,
+      }),
+    ).toEqual({ value: "macha", passwordId: "", stale: true });
+  });
+
+  it("leaves values unbound for other iron implementations", async () => {
+    const responseHeaders = new Headers();
+    await setSealedCookie(responseHeaders, "macha", secret, "cookie", {
+      format: "iron",
+      unbound: true,
+    });
+    const headers = new Headers({
+      Cookie: `other=${cookieValue(responseHeaders)}`,
+    });
+
+    expect(await getSealedCookie(headers, secret, "other")).toBe(false);
+    expect(
+      await getSealedCookie(headers, secret, "other", { allowUnbound: true }),
+    ).toBe("macha");
+  });
+
+  it("does not mark bound values as stale when unbound values are allowed", async () => {
+    const responseHeaders = new Headers();
+    await setSignedCookie(responseHeaders, "admin", secret, "role");
+    const headers = new Headers({
+      Cookie: `role=${cookieValue(responseHeaders)}`,
+    });
+    expect(
+      await getSignedCookieInfo(headers, secret, "role", {
+        allowUnbound: true,
+      }),
+    ).toEqual({ value: "admin", secretIndex: 0, stale: false });
+  });
+});
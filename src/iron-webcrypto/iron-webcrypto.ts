@@ -2,7 +2,14 @@ import type {
   GenerateKeyOptions,
   HMacResult,
   Key,
+  KeyCache,
+  Password,
+  PasswordKeyring,
+  SealOptions,
   SealOptionsSub,
+  SealPassword,
+  UnsealOptions,
+  Unsealed,
 } from "./types";
 import {
   base64urlDecode,
@@ -11,23 +18,69 @@ import {
   stringToBuffer,
 } from "./utils";
 
-const encryption: SealOptionsSub = {
+const defaultEncryption: SealOptionsSub = {
   saltBits: 256,
   algorithm: "aes-256-cbc",
   iterations: 1,
 };
 
-const integrity: SealOptionsSub = {
+const defaultIntegrity: SealOptionsSub = {
   saltBits: 256,
   algorithm: "sha256",
   iterations: 1,
 };
 
+/**
+ * Applies the key derivation options to the encryption and integrity defaults.
+ * @param options seal() or unseal() options
+ * @returns An object with keys: encryption, integrity
+ */
+function sealOptionsSub(options: SealOptions | UnsealOptions): {
+  encryption: SealOptionsSub & Pick<GenerateKeyOptions, "keyCache">;
+  integrity: SealOptionsSub & Pick<GenerateKeyOptions, "keyCache">;
+} {
+  const { keyCache } = options;
+  const iterations = options.iterations ?? defaultEncryption.iterations;
+  const saltBits =
+    ("saltBits" in options ? options.saltBits : undefined) ??
+    defaultEncryption.saltBits;
+  return {
+    encryption: { ...defaultEncryption, iterations, saltBits, keyCache },
+    integrity: { ...defaultIntegrity, iterations, saltBits, keyCache },
+  };
+}
+
+/**
+ * Prefix of sealed strings in the iron format.
+ */
+const macPrefix = "Fe26.2";
+
+/**
+ * Prefix of sealed strings in the compact AES-GCM format.
+ */
+const gcmPrefix = "gcm.1";
+
+/**
+ * Default timestamp skew allowed when checking the expiration of sealed strings, in seconds.
+ */
+const timestampSkewSec = 60;
+
+/**
+ * Marks encrypted data that was compressed before encryption.
+ */
+const compressedFlag = "z.";
+
+/**
+ * Values sealed with compression enabled are only compressed from this size in bytes.
+ */
+const defaultCompressThreshold = 128;
+
 /**
  * Configuration of each supported algorithm.
  */
 export const algorithms = {
   "aes-256-cbc": { keyBits: 256, ivBits: 128, name: "AES-CBC" },
+  "aes-256-gcm": { keyBits: 256, ivBits: 96, name: "AES-GCM" },
   sha256: { keyBits: 256, name: "SHA-256" },
 } as const;
 
@@ -55,26 +108,28 @@ export function randomBits(bits: number): Uint8Array {
 
 /**
  * Provides an asynchronous Password-Based Key Derivation Function 2 (PBKDF2) implementation.
- * @param password A password string or buffer key
+ * @param password A password string, buffer or PBKDF2 key
  * @param salt A salt string or buffer
  * @param iterations The number of iterations to use
  * @param keyLength The length of the derived key in bytes
  * @param hash The hash algorithm to use
  */
 async function pbkdf2(
-  password: string,
+  password: Password,
   salt: string,
   iterations: number,
   keyLength: number,
 ): Promise<ArrayBuffer> {
-  const passwordBuffer = stringToBuffer(password);
-  const importedKey = await globalThis.crypto.subtle.importKey(
-    "raw",
-    passwordBuffer,
-    "PBKDF2",
-    false,
-    ["deriveBits"],
-  );
+  const importedKey =
+    password instanceof CryptoKey
+      ? password
+      : await globalThis.crypto.subtle.importKey(
+          "raw",
+          typeof password === "string" ? stringToBuffer(password) : password,
+          "PBKDF2",
+          false,
+          ["deriveBits"],
+        );
   const saltBuffer = stringToBuffer(salt);
   const derivation = await globalThis.crypto.subtle.deriveBits(
     { name: "PBKDF2", hash: "SHA-1", salt: saltBuffer, iterations },
@@ -84,14 +139,76 @@ async function pbkdf2(
   return derivation;
 }
 
+/**
+ * Ids of the CryptoKey passwords in key cache keys.
+ */
+const cryptoKeyIds = new WeakMap<CryptoKey, number>();
+let nextCryptoKeyId = 0;
+
+/**
+ * Identifies a password in key cache keys.
+ * @param password A password string, buffer or PBKDF2 key
+ * @returns A string identifying the password
+ */
+function passwordCacheKey(password: Password): string {
+  if (typeof password === "string") {
+    return `s:${password}`;
+  }
+  if (password instanceof CryptoKey) {
+    if (!cryptoKeyIds.has(password)) {
+      cryptoKeyIds.set(password, nextCryptoKeyId++);
+    }
+    return `k:${cryptoKeyIds.get(password)}`;
+  }
+  const bytes = ArrayBuffer.isView(password)
+    ? new Uint8Array(password.buffer, password.byteOffset, password.byteLength)
+    : new Uint8Array(password);
+  return `b:${base64urlEncode(bytes)}`;
+}
+
+/**
+ * Creates a bounded cache of derived keys, which evicts the least recently used
+ * key once full. The same cache can be shared between calls and requests.
+ * @param options Object with key: maxSize, the maximum number of keys to keep (defaults to 1000)
+ * @returns The key cache
+ */
+export function createKeyCache(options: { maxSize?: number } = {}): KeyCache {
+  const { maxSize = 1000 } = options;
+  const keys = new Map<string, Promise<CryptoKey>>();
+  return {
+    get(cacheKey) {
+      const key = keys.get(cacheKey);
+      if (key) {
+        // move the key to the end, so that it is evicted last
+        keys.delete(cacheKey);
+        keys.set(cacheKey, key);
+      }
+      return key;
+    },
+    set(cacheKey, key) {
+      keys.delete(cacheKey);
+      keys.set(cacheKey, key);
+      while (keys.size > maxSize) {
+        keys.delete(keys.keys().next().value!);
+      }
+    },
+    delete(cacheKey) {
+      keys.delete(cacheKey);
+    },
+    get size() {
+      return keys.size;
+    },
+  };
+}
+
 /**
  * Generates a key from the password.
- * @param password A password string or buffer key
+ * @param password A password string, buffer or PBKDF2 key
  * @param options Object used to customize the key derivation algorithm
  * @returns An object with keys: key, salt, iv
  */
 export async function generateKey(
-  password: string,
+  password: Password,
   options: GenerateKeyOptions,
 ): Promise<Key> {
   const algorithm = algorithms[options.algorithm];
@@ -114,19 +231,43 @@ export async function generateKey(
       .join("");
   }
 
-  const derivedKey = await pbkdf2(
-    password,
-    salt,
-    options.iterations,
-    algorithm.keyBits / 8,
-  );
-  const importedEncryptionKey = await globalThis.crypto.subtle.importKey(
-    "raw",
-    derivedKey,
-    id,
-    false,
-    usage,
-  );
+  const deriveKey = async () => {
+    const derivedKey = await pbkdf2(
+      password,
+      salt,
+      options.iterations,
+      algorithm.keyBits / 8,
+    );
+    return await globalThis.crypto.subtle.importKey(
+      "raw",
+      derivedKey,
+      id,
+      false,
+      usage,
+    );
+  };
+
+  const { keyCache } = options;
+  let importedEncryptionKey: CryptoKey;
+  if (keyCache) {
+    const cacheKey = [
+      passwordCacheKey(password),
+      options.algorithm,
+      hmac ? "hmac" : "",
+      options.iterations,
+      salt,
+    ].join("*");
+    let cached = keyCache.get(cacheKey);
+    if (!cached) {
+      cached = deriveKey();
+      keyCache.set(cacheKey, cached);
+      // do not keep failed derivations around
+      cached.catch(() => keyCache.delete(cacheKey));
+    }
+    importedEncryptionKey = await cached;
+  } else {
+    importedEncryptionKey = await deriveKey();
+  }
 
   const result: Partial<Key> = {
     key: importedEncryptionKey,
@@ -141,22 +282,43 @@ export async function generateKey(
   return result as Key;
 }
 
+/**
+ * Builds the parameters of the encryption algorithm.
+ * @param options Object used to customize the key derivation algorithm
+ * @param key The generated key
+ * @param additionalData String authenticated along with the data, for AES-GCM only
+ * @returns The algorithm parameters
+ */
+function encryptionParams(
+  options: GenerateKeyOptions,
+  key: Key,
+  additionalData?: string,
+): AesCbcParams | AesGcmParams {
+  const { name } = algorithms[options.algorithm];
+  if (additionalData === undefined) {
+    return { name, iv: key.iv };
+  }
+  return { name, iv: key.iv, additionalData: stringToBuffer(additionalData) };
+}
+
 /**
  * Encrypts data.
- * @param password A password string or buffer key
+ * @param password A password string, buffer or PBKDF2 key
  * @param options Object used to customize the key derivation algorithm
- * @param data String to encrypt
+ * @param data String or buffer to encrypt
+ * @param additionalData String authenticated along with the data, for AES-GCM only
  * @returns An object with keys: encrypted, key
  */
 export async function encrypt(
-  password: string,
+  password: Password,
   options: GenerateKeyOptions,
-  data: string,
+  data: string | Uint8Array,
+  additionalData?: string,
 ): Promise<{ encrypted: Uint8Array; key: Key }> {
   const key = await generateKey(password, options);
-  const textBuffer = stringToBuffer(data);
+  const textBuffer = typeof data === "string" ? stringToBuffer(data) : data;
   const encrypted = await globalThis.crypto.subtle.encrypt(
-    { name: algorithms[options.algorithm].name, iv: key.iv },
+    encryptionParams(options, key, additionalData),
     key.key,
     textBuffer,
   );
@@ -165,34 +327,123 @@ export async function encrypt(
 
 /**
  * Decrypts data.
- * @param password A password string or buffer key
+ * @param password A password string, buffer or PBKDF2 key
  * @param options Object used to customize the key derivation algorithm
  * @param data Buffer to decrypt
+ * @param additionalData String authenticated along with the data, for AES-GCM only
  * @returns Decrypted string
  */
 export async function decrypt(
-  password: string,
+  password: Password,
   options: GenerateKeyOptions,
   data: Uint8Array | string,
+  additionalData?: string,
 ): Promise<string> {
+  return bufferToString(
+    await decryptBuffer(password, options, data, additionalData),
+  );
+}
+
+/**
+ * Decrypts data without decoding it.
+ * @param password A password string, buffer or PBKDF2 key
+ * @param options Object used to customize the key derivation algorithm
+ * @param data Buffer to decrypt
+ * @param additionalData String authenticated along with the data, for AES-GCM only
+ * @returns Decrypted buffer
+ */
+async function decryptBuffer(
+  password: Password,
+  options: GenerateKeyOptions,
+  data: Uint8Array | string,
+  additionalData?: string,
+): Promise<Uint8Array> {
   const key = await generateKey(password, options);
   const decrypted = await globalThis.crypto.subtle.decrypt(
-    { name: algorithms[options.algorithm].name, iv: key.iv },
+    encryptionParams(options, key, additionalData),
     key.key,
     typeof data === "string" ? stringToBuffer(data) : data,
   );
-  return bufferToString(new Uint8Array(decrypted));
+  return new Uint8Array(decrypted);
+}
+
+/**
+ * Compresses data with raw deflate.
+ * @param data Buffer to compress
+ * @returns Compressed buffer
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decompresses raw deflate data.
+ * @param data Buffer to decompress
+ * @returns Decompressed string
+ */
+async function inflate(data: Uint8Array): Promise<string> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+/**
+ * Compresses a value to seal if compression is enabled, it reaches the
+ * threshold and compressing actually makes it smaller.
+ * @param value The value to seal
+ * @param compress The compress option of seal()
+ * @returns The data to encrypt, and whether it was compressed
+ */
+async function compressValue(
+  value: string,
+  compress: SealOptions["compress"],
+): Promise<{ data: string | Uint8Array; compressed: boolean }> {
+  if (!compress) {
+    return { data: value, compressed: false };
+  }
+  const threshold =
+    (compress === true ? undefined : compress.threshold) ??
+    defaultCompressThreshold;
+  const buffer = stringToBuffer(value);
+  if (buffer.length < threshold) {
+    return { data: value, compressed: false };
+  }
+  const deflated = await deflate(buffer);
+  return deflated.length < buffer.length
+    ? { data: deflated, compressed: true }
+    : { data: value, compressed: false };
+}
+
+/**
+ * Appends associated data to the data that is authenticated, without adding it
+ * to the sealed string. The associated data is base64url encoded, so it is
+ * always the part after the last asterisk.
+ * @param data The data to authenticate
+ * @param associatedData The associated data, if any
+ * @returns The data to calculate the HMAC over or to pass as additional data
+ */
+export function bindAssociatedData(
+  data: string,
+  associatedData: string | undefined,
+): string {
+  return associatedData === undefined
+    ? data
+    : `${data}*${base64urlEncode(associatedData)}`;
 }
 
 /**
  * Calculates a HMAC digest.
- * @param password A password string or buffer
+ * @param password A password string, buffer or PBKDF2 key
  * @param options Object used to customize the key derivation algorithm
  * @param data String to calculate the HMAC over
  * @returns An object with keys: digest, salt
  */
 export async function hmacWithPassword(
-  password: string,
+  password: Password,
   options: GenerateKeyOptions,
   data: string,
 ): Promise<HMacResult> {
@@ -210,21 +461,191 @@ export async function hmacWithPassword(
   return { digest, salt: key.salt };
 }
 
+// password ids are embedded in the sealed string, so they are restricted to word characters
+const validPasswordIdRegEx = /^\w+$/;
+
+/**
+ * Checks whether a password argument is a keyring.
+ * @param password A password or keyring
+ * @returns Whether the password is a keyring
+ */
+function isKeyring(password: SealPassword): password is PasswordKeyring {
+  return (
+    typeof password === "object" &&
+    "current" in password &&
+    "passwords" in password
+  );
+}
+
+/**
+ * Checks that a password is long enough.
+ * @param password A password string, buffer or PBKDF2 key
+ * @param minPasswordLength The minimum length of string passwords in characters, and of buffer passwords in bytes
+ */
+function assertPasswordLength(
+  password: Password,
+  minPasswordLength: number,
+): void {
+  if (password instanceof CryptoKey) {
+    return;
+  }
+  const length =
+    typeof password === "string" ? password.length : password.byteLength;
+  if (!length) {
+    throw new Error("Empty password");
+  }
+  if (length < minPasswordLength) {
+    const unit = typeof password === "string" ? "characters" : "bytes";
+    throw new Error(
+      `Password too short (min ${minPasswordLength} ${unit} required)`,
+    );
+  }
+}
+
+/**
+ * Checks that a password, or every password of a keyring, is long enough.
+ * @param password A password or keyring
+ * @param minPasswordLength The minimum length of string passwords in characters, and of buffer passwords in bytes
+ */
+export function validatePassword(
+  password: SealPassword,
+  minPasswordLength = 0,
+): void {
+  const passwords = isKeyring(password)
+    ? Object.values(password.passwords)
+    : [password];
+  for (const secret of passwords) {
+    assertPasswordLength(secret, minPasswordLength);
+  }
+}
+
+/**
+ * Resolves the password used to seal a new value.
+ * @param password A password or keyring
+ * @returns An object with keys: id, secret
+ */
+function resolveSealingPassword(password: SealPassword): {
+  id: string;
+  secret: Password;
+} {
+  if (!isKeyring(password)) {
+    return { id: "", secret: password };
+  }
+  const { current, passwords } = password;
+  if (!validPasswordIdRegEx.test(current)) {
+    throw new Error("Invalid password id");
+  }
+  if (!Object.hasOwn(passwords, current)) {
+    throw new Error(`Cannot find password: ${current}`);
+  }
+  return { id: current, secret: passwords[current]! };
+}
+
+/**
+ * Resolves the password used to unseal a value.
+ * @param password A password or keyring
+ * @param passwordId The password id recorded in the sealed string
+ * @returns An object with keys: secret, stale
+ */
+function resolveUnsealingPassword(
+  password: SealPassword,
+  passwordId: string,
+): { secret: Password; stale: boolean } {
+  if (!isKeyring(password)) {
+    return { secret: password, stale: false };
+  }
+  const id = passwordId || "default";
+  if (!Object.hasOwn(password.passwords, id)) {
+    throw new Error(`Cannot find password: ${id}`);
+  }
+  return { secret: password.passwords[id]!, stale: id !== password.current };
+}
+
 /**
  * Serializes, encrypts, and signs objects into an iron protocol string.
  * @param value Data being sealed
- * @param password A string, buffer or object
- * @param options Object used to customize the key derivation algorithm
+ * @param password A password or keyring
+ * @param options Object used to customize the sealed string format, expiration and key derivation
  * @returns Iron sealed string
  */
-export async function seal(value: string, password: string): Promise<string> {
-  const { encrypted, key } = await encrypt(password, encryption, value);
+export async function seal(
+  value: string,
+  password: SealPassword,
+  options: SealOptions = {},
+): Promise<string> {
+  const { id, secret } = resolveSealingPassword(password);
+  assertPasswordLength(secret, options.minPasswordLength ?? 0);
+  const { encryption, integrity } = sealOptionsSub(options);
+  const now = options.now?.() ?? Date.now();
+  const expiration =
+    typeof options.ttl === "number"
+      ? now + Math.floor(options.ttl) * 1000
+      : undefined;
+  const timestamps =
+    expiration === undefined
+      ? ""
+      : `${Math.floor(now / 1000)}~${Math.floor(expiration / 1000)}`;
 
-  const encryptedB64 = base64urlEncode(new Uint8Array(encrypted));
+  const iron = options.format === "iron";
+  if (iron && options.compress) {
+    throw new Error("Compression is not supported in the iron format");
+  }
+  const { data, compressed } = await compressValue(value, options.compress);
+  const flag = compressed ? compressedFlag : "";
+
+  if (options.format === "gcm") {
+    // AES-GCM authenticates the data itself, so a single key is derived and the
+    // other components are authenticated as additional data
+    const salt = base64urlEncode(randomBits(encryption.saltBits));
+    const iv = randomBits(algorithms["aes-256-gcm"].ivBits);
+    const ivB64 = base64urlEncode(iv);
+    const additionalData = bindAssociatedData(
+      flag + [gcmPrefix, id, salt, ivB64, timestamps].join("*"),
+      options.associatedData,
+    );
+    const { encrypted } = await encrypt(
+      secret,
+      { ...encryption, algorithm: "aes-256-gcm", salt, iv },
+      data,
+      additionalData,
+    );
+    const encryptedB64 = flag + base64urlEncode(encrypted);
+    return [gcmPrefix, id, salt, ivB64, encryptedB64, timestamps].join("*");
+  }
+
+  // iron seals JSON, so strings are sealed as JSON strings to be readable by other iron implementations
+  const { encrypted, key } = await encrypt(
+    secret,
+    encryption,
+    iron ? JSON.stringify(value) : data,
+  );
+
+  const encryptedB64 = flag + base64urlEncode(new Uint8Array(encrypted));
   const iv = base64urlEncode(key.iv);
-  const macBaseString = `${key.salt}*${iv}*${encryptedB64}`;
 
-  const mac = await hmacWithPassword(password, integrity, macBaseString);
+  let macBaseParts: string[];
+  if (iron) {
+    // the iron format only records the expiration, in milliseconds
+    macBaseParts = [
+      macPrefix,
+      id,
+      key.salt,
+      iv,
+      encryptedB64,
+      expiration === undefined ? "" : String(expiration),
+    ];
+  } else if (timestamps) {
+    macBaseParts = [id, key.salt, iv, encryptedB64, timestamps];
+  } else {
+    macBaseParts = [...(id ? [id] : []), key.salt, iv, encryptedB64];
+  }
+  const macBaseString = macBaseParts.join("*");
+
+  const mac = await hmacWithPassword(
+    secret,
+    integrity,
+    bindAssociatedData(macBaseString, options.associatedData),
+  );
 
   return `${macBaseString}*${mac.salt}*${mac.digest}`;
 }
@@ -236,7 +657,7 @@ export async function seal(value: string, password: string): Promise<string> {
  * @returns Returns true if `a` is equal to `b`, without leaking timing information
  *          that would allow an attacker to guess one of the values.
  */
-function fixedTimeComparison(a: string, b: string): boolean {
+export function fixedTimeComparison(a: string, b: string): boolean {
   let mismatch = a.length === b.length ? 0 : 1;
 
   if (mismatch) {
@@ -249,31 +670,215 @@ function fixedTimeComparison(a: string, b: string): boolean {
   return mismatch === 0;
 }
 
+/**
+ * The components of a sealed string.
+ */
+interface SealedParts {
+  format: "legacy" | "iron" | "gcm";
+  passwordId: string;
+  encryptionSalt: string;
+  encryptionIv: string;
+  encryptedB64: string;
+  // whether the value was compressed before encryption
+  compressed: boolean;
+  issuedAt?: number;
+  expiresAt?: number;
+  hmacSalt: string;
+  hmac: string;
+  // the additional authenticated data in the gcm format
+  macBaseString: string;
+}
+
+/**
+ * Parses the issue and expiration times of a sealed string.
+ * @param timestamps The timestamps component of the sealed string
+ * @returns An object with keys: issuedAt, expiresAt
+ */
+function parseTimestamps(timestamps: string): {
+  issuedAt?: number;
+  expiresAt?: number;
+} {
+  if (!timestamps) {
+    return {};
+  }
+  const match = /^(\d+)~(\d+)$/.exec(timestamps);
+  if (!match) {
+    throw new Error("Invalid expiration");
+  }
+  return { issuedAt: Number(match[1]), expiresAt: Number(match[2]) };
+}
+
+/**
+ * Strips the compression flag from the encrypted component of a sealed string.
+ * @param encrypted The encrypted component of the sealed string
+ * @returns An object with keys: encryptedB64, compressed
+ */
+function splitCompressedFlag(encrypted: string): {
+  encryptedB64: string;
+  compressed: boolean;
+} {
+  return encrypted.startsWith(compressedFlag)
+    ? { encryptedB64: encrypted.slice(compressedFlag.length), compressed: true }
+    : { encryptedB64: encrypted, compressed: false };
+}
+
+/**
+ * Splits a sealed string in the legacy, iron or gcm format into its components.
+ * @param sealed The sealed string
+ * @returns The components of the sealed string
+ */
+function splitSealed(sealed: string): SealedParts {
+  const parts = sealed.split("*");
+  const macBaseString = parts.slice(0, -2).join("*");
+
+  if (parts[0] === gcmPrefix) {
+    if (parts.length !== 6) {
+      throw new Error("Incorrect number of sealed components");
+    }
+    const passwordId = parts[1]!;
+    if (passwordId && !validPasswordIdRegEx.test(passwordId)) {
+      throw new Error("Invalid password id");
+    }
+    const { encryptedB64, compressed } = splitCompressedFlag(parts[4]!);
+    return {
+      format: "gcm",
+      passwordId,
+      encryptionSalt: parts[2]!,
+      encryptionIv: parts[3]!,
+      encryptedB64,
+      compressed,
+      ...parseTimestamps(parts[5]!),
+      hmacSalt: "",
+      hmac: "",
+      macBaseString:
+        (compressed ? compressedFlag : "") +
+        [...parts.slice(0, 4), parts[5]].join("*"),
+    };
+  }
+
+  if (parts[0] === macPrefix) {
+    if (parts.length !== 8) {
+      throw new Error("Incorrect number of sealed components");
+    }
+    const passwordId = parts[1]!;
+    if (passwordId && !validPasswordIdRegEx.test(passwordId)) {
+      throw new Error("Invalid password id");
+    }
+    const expiration = parts[5]!;
+    if (expiration && !/^\d+$/.test(expiration)) {
+      throw new Error("Invalid expiration");
+    }
+    return {
+      format: "iron",
+      passwordId,
+      encryptionSalt: parts[2]!,
+      encryptionIv: parts[3]!,
+      encryptedB64: parts[4]!,
+      compressed: false,
+      expiresAt: expiration ? Number(expiration) / 1000 : undefined,
+      hmacSalt: parts[6]!,
+      // iron-session appends the version of its own format after a tilde
+      hmac: parts[7]!.replace(/~\d+$/, ""),
+      macBaseString,
+    };
+  }
+
+  // legacy sealed strings start with a password id when sealed with a keyring,
+  // and end with the issue and expiration times when sealed with a ttl
+  if (parts.length === 5) {
+    parts.unshift("");
+  }
+  if (parts.length === 6) {
+    parts.splice(4, 0, "");
+  }
+  if (parts.length !== 7) {
+    throw new Error("Incorrect number of sealed components");
+  }
+
+  const passwordId = parts[0]!;
+  if (passwordId && !validPasswordIdRegEx.test(passwordId)) {
+    throw new Error("Invalid password id");
+  }
+  return {
+    format: "legacy",
+    passwordId,
+    encryptionSalt: parts[1]!,
+    encryptionIv: parts[2]!,
+    ...splitCompressedFlag(parts[3]!),
+    ...parseTimestamps(parts[4]!),
+    hmacSalt: parts[5]!,
+    hmac: parts[6]!,
+    macBaseString,
+  };
+}
+
 /**
  * Verifies, decrypts, and reconstruct an iron protocol string into an object.
- * @param sealed The iron protocol string generated with seal()
- * @param password A string, buffer, or object
- * @param options Object used to customize the key derivation algorithm
- * @returns The verified decrypted object
+ * @param sealed The iron protocol string generated with seal(), in any format
+ * @param password A password or keyring
+ * @param options Object used to customize the expiration check and key derivation
+ * @returns The verified decrypted value and the id of the password used
  */
 export async function unseal(
   sealed: string,
-  password: string,
-): Promise<string> {
-  const parts = sealed.split("*");
-  if (parts.length !== 5) {
-    throw new Error("Incorrect number of sealed components");
+  password: SealPassword,
+  options: UnsealOptions = {},
+): Promise<Unsealed> {
+  const {
+    format,
+    passwordId,
+    encryptionSalt,
+    encryptionIv,
+    encryptedB64,
+    compressed,
+    issuedAt,
+    expiresAt,
+    hmacSalt,
+    hmac,
+    macBaseString,
+  } = splitSealed(sealed);
+
+  if (expiresAt !== undefined) {
+    const now = options.now?.() ?? Date.now();
+    const skew = options.clockTolerance ?? timestampSkewSec;
+    if (expiresAt * 1000 <= now - skew * 1000) {
+      throw new Error("Expired seal");
+    }
   }
 
-  const encryptionSalt = parts[0]!;
-  const encryptionIv = parts[1]!;
-  const encryptedB64 = parts[2]!;
-  const hmacSalt = parts[3]!;
-  const hmac = parts[4]!;
-  const macBaseString = `${encryptionSalt}*${encryptionIv}*${encryptedB64}`;
+  const { secret, stale } = resolveUnsealingPassword(password, passwordId);
+  assertPasswordLength(secret, options.minPasswordLength ?? 0);
+  const { encryption, integrity } = sealOptionsSub(options);
+
+  const encrypted = base64urlDecode(encryptedB64);
+  if (format === "gcm") {
+    const decryptOptions: GenerateKeyOptions = {
+      ...encryption,
+      algorithm: "aes-256-gcm",
+      salt: encryptionSalt,
+      iv: base64urlDecode(encryptionIv),
+    };
+    const decrypted = await decryptBuffer(
+      secret,
+      decryptOptions,
+      encrypted,
+      bindAssociatedData(macBaseString, options.associatedData),
+    );
+    return {
+      value: await decompressValue(decrypted, compressed),
+      passwordId,
+      stale,
+      issuedAt,
+      expiresAt,
+    };
+  }
 
   const macOptions: GenerateKeyOptions = { ...integrity, salt: hmacSalt };
-  const mac = await hmacWithPassword(password, macOptions, macBaseString);
+  const mac = await hmacWithPassword(
+    secret,
+    macOptions,
+    bindAssociatedData(macBaseString, options.associatedData),
+  );
 
   if (!fixedTimeComparison(mac.digest, hmac)) {
     throw new Error("Bad hmac value");
@@ -285,8 +890,38 @@ export async function unseal(
     iv: base64urlDecode(encryptionIv),
   };
 
-  const encrypted = base64urlDecode(encryptedB64);
-  const decrypted = await decrypt(password, decryptOptions, encrypted);
+  const decrypted = await decryptBuffer(secret, decryptOptions, encrypted);
+  const value = await decompressValue(decrypted, compressed);
+
+  return {
+    value: format === "iron" ? fromIronJson(value) : value,
+    passwordId,
+    stale,
+    issuedAt,
+    expiresAt,
+  };
+}
 
-  return decrypted;
+/**
+ * Decompresses a decrypted value if it was compressed. Only authenticated
+ * values are decompressed.
+ * @param decrypted The decrypted buffer
+ * @param compressed Whether the value was compressed before encryption
+ * @returns The sealed string
+ */
+async function decompressValue(
+  decrypted: Uint8Array,
+  compressed: boolean,
+): Promise<string> {
+  return compressed ? inflate(decrypted) : bufferToString(decrypted);
+}
+
+/**
+ * Reads a value sealed in the iron format.
+ * @param decrypted The decrypted JSON
+ * @returns The sealed string, or the JSON itself if something other than a string was sealed
+ */
+function fromIronJson(decrypted: string): string {
+  const value: unknown = JSON.parse(decrypted);
+  return typeof value === "string" ? value : decrypted;
 }
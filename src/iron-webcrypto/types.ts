@@ -10,7 +10,7 @@ export interface SealOptionsSub {
   /**
    * The algorithm used. Defaults to 'aes-256-cbc' for encryption and 'sha256' for integrity.
    */
-  algorithm: "aes-256-cbc" | "sha256";
+  algorithm: "aes-256-cbc" | "aes-256-gcm" | "sha256";
 
   /**
    * The number of iterations used to derive a key from the password. Defaults to 1.
@@ -29,8 +29,19 @@ export type GenerateKeyOptions = Pick<
   salt?: string | undefined;
   iv?: Uint8Array | undefined;
   hmac?: boolean | undefined;
+  keyCache?: KeyCache | undefined;
 };
 
+/**
+ * Cache of derived keys, see createKeyCache().
+ */
+export interface KeyCache {
+  get(cacheKey: string): Promise<CryptoKey> | undefined;
+  set(cacheKey: string, key: Promise<CryptoKey>): void;
+  delete(cacheKey: string): void;
+  readonly size: number;
+}
+
 /**
  * Generated internal key object.
  */
@@ -47,3 +58,158 @@ export interface HMacResult {
   digest: string;
   salt: string;
 }
+
+/**
+ * A single password: a string, a buffer, or a key imported for PBKDF2 with
+ * the `deriveBits` usage.
+ */
+export type Password = string | BufferSource | CryptoKey;
+
+/**
+ * A set of passwords identified by id, used to rotate the sealing password.
+ */
+export interface PasswordKeyring {
+  /**
+   * The id of the password used to seal new values.
+   */
+  current: string;
+
+  /**
+   * All passwords that may be used to unseal values, by id. Values sealed
+   * without an id are unsealed with the password stored under `default`.
+   */
+  passwords: Record<string, Password>;
+}
+
+/**
+ * seal() and unseal() password argument.
+ */
+export type SealPassword = Password | PasswordKeyring;
+
+/**
+ * unseal() results.
+ */
+export interface Unsealed {
+  /**
+   * The decrypted value.
+   */
+  value: string;
+
+  /**
+   * The id of the password the value was sealed with, or an empty string if
+   * the sealed value does not record one.
+   */
+  passwordId: string;
+
+  /**
+   * The time the value was sealed at, in seconds since the epoch, if sealed
+   * with a ttl. Values sealed in the iron format do not record it.
+   */
+  issuedAt?: number;
+
+  /**
+   * The time the sealed value expires at, in seconds since the epoch, if
+   * sealed with a ttl.
+   */
+  expiresAt?: number;
+
+  /**
+   * Whether the value was sealed with a password other than the keyring's
+   * current one, or was read without being bound to the cookie name, meaning
+   * it should be sealed again.
+   */
+  stale: boolean;
+}
+
+/**
+ * Key derivation options shared by seal() and unseal().
+ */
+export interface KeyDerivationOptions {
+  /**
+   * The number of PBKDF2 iterations used to derive the encryption and
+   * integrity keys from the password. Values must be unsealed with the
+   * iterations they were sealed with. Defaults to 1.
+   */
+  iterations?: number;
+
+  /**
+   * The minimum length of the password, in characters for strings and in
+   * bytes for buffers. Empty passwords are always rejected. Defaults to 0.
+   */
+  minPasswordLength?: number;
+
+  /**
+   * Cache of the keys derived from the password and salts, so that values
+   * sealed with the same salt do not derive the same keys again. Defaults to
+   * no cache.
+   */
+  keyCache?: KeyCache;
+}
+
+/**
+ * seal() options.
+ */
+export interface SealOptions extends KeyDerivationOptions {
+  /**
+   * The length of the encryption and integrity salts in bits. Defaults to 256.
+   */
+  saltBits?: number;
+
+  /**
+   * The format of the sealed string. `legacy` is the kukkii format, `iron` is
+   * the `Fe26.2` format used by @hapi/iron and iron-session, and `gcm` is a
+   * compact format encrypted with AES-256-GCM, which needs a single key
+   * derivation. Defaults to 'legacy'. unseal() accepts all of them.
+   */
+  format?: "legacy" | "iron" | "gcm";
+
+  /**
+   * Time-to-live of the sealed value in seconds. The expiration is sealed
+   * along with the value, and unseal() rejects the value once it has passed.
+   * Defaults to no expiration.
+   */
+  ttl?: number;
+
+  /**
+   * Compresses the value with raw deflate before encrypting it, when it is at
+   * least `threshold` bytes long (128 by default) and compressing makes it
+   * smaller. The sealed string records whether the value was compressed, so
+   * unseal() needs no option. Not supported by the iron format. Defaults to false.
+   */
+  compress?: boolean | { threshold?: number };
+
+  /**
+   * Data that is authenticated along with the value but not included in the
+   * sealed string, such as the name of the cookie the value is stored in.
+   * unseal() must be given the same data. Values sealed in the iron format
+   * with associated data cannot be unsealed by other iron implementations.
+   * Defaults to none.
+   */
+  associatedData?: string;
+
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to `Date.now`.
+   */
+  now?: () => number;
+}
+
+/**
+ * unseal() options.
+ */
+export interface UnsealOptions extends KeyDerivationOptions {
+  /**
+   * The number of seconds a sealed value is still accepted after it expired,
+   * to allow for clock differences between servers. Defaults to 60.
+   */
+  clockTolerance?: number;
+
+  /**
+   * The data the value was sealed with as associated data. Defaults to none.
+   */
+  associatedData?: string;
+
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to `Date.now`.
+   */
+  now?: () => number;
+}
@@ -0,0 +1,121 @@
+import { parseSetCookie } from "./utils";
+
+export type CookieJar = {
+  // the request headers, with the cookies written to the jar applied to the Cookie header
+  headers: Headers;
+  // the pending set-cookie headers, one per cookie name, domain and path
+  getSetCookie: () => string[];
+  commit: {
+    (headers: Headers): void;
+    (response: Response): Response;
+  };
+};
+
+function getCookieKey(setCookie: string): string | undefined {
+  const parsed = parseSetCookie(setCookie);
+  if (!parsed) {
+    return undefined;
+  }
+  const domain = parsed.domain?.replace(/^\./, "").toLowerCase() ?? "";
+  return `${parsed.name};${domain};${parsed.path ?? ""}`;
+}
+
+function isExpired(setCookie: string): boolean {
+  const parsed = parseSetCookie(setCookie)!;
+  if (parsed.maxAge !== undefined) {
+    return parsed.maxAge <= 0;
+  }
+  return !!parsed.expires && parsed.expires.getTime() <= Date.now();
+}
+
+function getCookieName(pair: string): string {
+  const valueStartPos = pair.indexOf("=");
+  return (
+    valueStartPos === -1 ? pair : pair.substring(0, valueStartPos)
+  ).trim();
+}
+
+export function createCookieJar(requestHeaders: Headers): CookieJar {
+  const requestCookie = requestHeaders.get("Cookie");
+  const pending = new Map<string, string>();
+  // the latest cookie written under each name, domain and path, without a pair once deleted
+  const written = new Map<string, { name: string; pair?: string }>();
+  const headers = new Headers(requestHeaders);
+
+  // the cookies the client will send once the written cookies are stored
+  const updateCookieHeader = () => {
+    const writtenNames = new Set(
+      [...written.values()].map((cookie) => cookie.name),
+    );
+    const pairs = (requestCookie ? requestCookie.split(";") : [])
+      .map((pair) => pair.trim())
+      .filter((pair) => pair && !writtenNames.has(getCookieName(pair)));
+    for (const { pair } of written.values()) {
+      if (pair !== undefined) {
+        pairs.push(pair);
+      }
+    }
+    if (pairs.length) {
+      headers.set("Cookie", pairs.join("; "));
+    } else {
+      headers.delete("Cookie");
+    }
+  };
+
+  // the setters append set-cookie headers, which are kept in the jar instead
+  const append = headers.append.bind(headers);
+  headers.append = (name, value) => {
+    if (name.toLowerCase() !== "set-cookie") {
+      return append(name, value);
+    }
+    const key = getCookieKey(value);
+    if (key === undefined) {
+      throw new Error(`Invalid set-cookie header: ${value}`);
+    }
+    // a later write replaces the earlier one and moves to the end
+    pending.delete(key);
+    pending.set(key, value);
+    const pair = value.split(";")[0]!.trim();
+    written.delete(key);
+    written.set(key, {
+      name: getCookieName(pair),
+      pair: isExpired(value) ? undefined : pair,
+    });
+    updateCookieHeader();
+  };
+
+  const getSetCookie = () => [...pending.values()];
+
+  const commit = ((target: Headers | Response) => {
+    const setCookies = getSetCookie();
+    pending.clear();
+    if (target instanceof Headers) {
+      for (const setCookie of setCookies) {
+        target.append("set-cookie", setCookie);
+      }
+      return;
+    }
+    if (!setCookies.length) {
+      return target;
+    }
+    try {
+      for (const setCookie of setCookies) {
+        target.headers.append("set-cookie", setCookie);
+      }
+      return target;
+    } catch {
+      // the headers of responses from fetch and Response.redirect are immutable
+      const response = new Response(target.body, {
+        status: target.status,
+        statusText: target.statusText,
+        headers: new Headers(target.headers),
+      });
+      for (const setCookie of setCookies) {
+        response.headers.append("set-cookie", setCookie);
+      }
+      return response;
+    }
+  }) as CookieJar["commit"];
+
+  return { headers, getSetCookie, commit };
+}
@@ -0,0 +1,46 @@
+// the parts of node's IncomingMessage and ServerResponse that are used, which express objects also have
+export type NodeRequest = {
+  headers: Record<string, string | string[] | undefined>;
+};
+
+export type NodeResponse = {
+  getHeader: (name: string) => number | string | string[] | undefined;
+  setHeader: (name: string, value: number | string | string[]) => unknown;
+};
+
+export function fromNodeRequest(req: NodeRequest): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+  return headers;
+}
+
+export function fromNodeResponse(res: NodeResponse): Headers {
+  const headers = new Headers();
+
+  // the setters append set-cookie headers, which are added to the ones already on the response
+  const append = headers.append.bind(headers);
+  headers.append = (name, value) => {
+    append(name, value);
+    if (name.toLowerCase() !== "set-cookie") {
+      return;
+    }
+    const setCookie = res.getHeader("set-cookie");
+    res.setHeader(
+      "set-cookie",
+      setCookie === undefined
+        ? [value]
+        : [
+            ...(Array.isArray(setCookie) ? setCookie : [String(setCookie)]),
+            value,
+          ],
+    );
+  };
+  return headers;
+}
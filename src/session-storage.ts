@@ -0,0 +1,71 @@
+// stores the data of server-side sessions, ttls are in seconds
+export type SessionStorage = {
+  get: (key: string) => Promise<string | undefined>;
+  set: (key: string, value: string, ttl?: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  // moves the expiration of a stored value forward
+  touch: (key: string, ttl?: number) => Promise<void>;
+};
+
+// the methods of key-value stores such as cloudflare kv, deno kv or redis, wrapped where needed
+export type KeyValueStore = {
+  get: (key: string) => Promise<string | null | undefined>;
+  set: (key: string, value: string, opt?: { ttl?: number }) => Promise<unknown>;
+  delete: (key: string) => Promise<unknown>;
+};
+
+// keeps sessions in the memory of a single process, for development and tests
+export function createMemoryStorage(): SessionStorage {
+  const values = new Map<string, { value: string; expiresAt?: number }>();
+
+  const getEntry = (key: string) => {
+    const entry = values.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      values.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+  const getExpiresAt = (ttl?: number) =>
+    ttl === undefined ? undefined : Date.now() + ttl * 1000;
+
+  return {
+    get: async (key) => getEntry(key)?.value,
+    set: async (key, value, ttl) => {
+      values.set(key, { value, expiresAt: getExpiresAt(ttl) });
+    },
+    delete: async (key) => {
+      values.delete(key);
+    },
+    touch: async (key, ttl) => {
+      const entry = getEntry(key);
+      if (entry) {
+        entry.expiresAt = getExpiresAt(ttl);
+      }
+    },
+  };
+}
+
+export function createKeyValueStorage(
+  kv: KeyValueStore,
+  opt?: { prefix?: string },
+): SessionStorage {
+  const prefix = opt?.prefix ?? "";
+
+  return {
+    get: async (key) => (await kv.get(prefix + key)) ?? undefined,
+    set: async (key, value, ttl) => {
+      await kv.set(prefix + key, value, { ttl });
+    },
+    delete: async (key) => {
+      await kv.delete(prefix + key);
+    },
+    // key-value stores cannot update ttls on their own, so the value is written again
+    touch: async (key, ttl) => {
+      const value = await kv.get(prefix + key);
+      if (value !== null && value !== undefined) {
+        await kv.set(prefix + key, value, { ttl });
+      }
+    },
+  };
+}
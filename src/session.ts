@@ -0,0 +1,405 @@
+import { createCodec, decodeCookie, jsonCodec } from "./codec";
+import type { Codec } from "./codec";
+import {
+  deleteCookie,
+  getSealedCookie,
+  getSignedCookie,
+  setSealedCookie,
+  setSignedCookie,
+} from "./cookie";
+import { base64urlEncode } from "./iron-webcrypto/utils";
+import type { SessionStorage } from "./session-storage";
+import type {
+  GetSealedCookieOptions,
+  GetSignedCookieOptions,
+  SealPassword,
+  SealedCookieOptions,
+  SignedCookieOptions,
+  SigningSecret,
+} from "./utils";
+
+export type SessionOptions<T> = SealedCookieOptions &
+  GetSealedCookieOptions & {
+    name: string;
+    secret: SealPassword;
+    // turns the session data into a string and back, json by default
+    codec?: Codec<T>;
+    // moves the expiration forward every time the session is committed, which re-seals it
+    rolling?: boolean;
+    // the lifetime of a session in seconds, which rolling expiration cannot extend
+    absoluteMaxAge?: number;
+    onDecodeError?: (error: unknown, name: string) => void;
+  };
+
+export type Session<T> = {
+  // whether no valid session was sent with the request
+  readonly isNew: boolean;
+  readonly isModified: boolean;
+  get: () => T | undefined;
+  set: (data: T) => void;
+  // starts a new session without data, replacing the cookie of the current one
+  regenerate: () => void;
+  // deletes the session cookie when the session is committed, unless new data is set
+  destroy: () => void;
+  commit: (headers: Headers) => Promise<void>;
+};
+
+export type StoredSessionOptions<T> = (
+  | (SignedCookieOptions &
+      GetSignedCookieOptions & {
+        kind?: "signed";
+        secret: SigningSecret | SigningSecret[];
+      })
+  | (SealedCookieOptions &
+      GetSealedCookieOptions & { kind: "sealed"; secret: SealPassword })
+) & {
+  name: string;
+  storage: SessionStorage;
+  codec?: Codec<T>;
+  // moves the expiration forward every time the session is committed
+  rolling?: boolean;
+  absoluteMaxAge?: number;
+  // the user a session belongs to, to invalidate all sessions of a user at once
+  getUserId?: (data: T) => string | undefined;
+  onDecodeError?: (error: unknown, name: string) => void;
+};
+
+export type StoredSession<T> = Session<T> & {
+  // the id in the cookie, which is only stored once the session has data
+  readonly id: string;
+  // moves the data to a new id, for instance when the privileges of the user change
+  rotate: () => void;
+};
+
+// what is sealed in the session cookie or kept in the storage, with timestamps in milliseconds
+type SessionPayload = {
+  data: string;
+  createdAt: number;
+  expiresAt?: number;
+  userId?: string;
+};
+
+const payloadCodec = createCodec({
+  encode: (payload: SessionPayload) => JSON.stringify(payload),
+  decode: (value) => JSON.parse(value),
+  validate: (payload): payload is SessionPayload => {
+    if (typeof payload !== "object" || payload === null) {
+      return false;
+    }
+    const { data, createdAt, expiresAt, userId } =
+      payload as Partial<SessionPayload>;
+    return (
+      typeof data === "string" &&
+      typeof createdAt === "number" &&
+      (expiresAt === undefined || typeof expiresAt === "number") &&
+      (userId === undefined || typeof userId === "string")
+    );
+  },
+});
+
+function getExpiresAt(
+  createdAt: number,
+  now: number,
+  opt: { maxAge?: number; rolling?: boolean; absoluteMaxAge?: number },
+): number | undefined {
+  const expiresAt = [
+    opt.maxAge !== undefined
+      ? (opt.rolling ? now : createdAt) + opt.maxAge * 1000
+      : undefined,
+    opt.absoluteMaxAge !== undefined
+      ? createdAt + opt.absoluteMaxAge * 1000
+      : undefined,
+  ].filter((value): value is number => value !== undefined);
+  return expiresAt.length ? Math.min(...expiresAt) : undefined;
+}
+
+// the seconds until a timestamp, for max ages and ttls
+function getSecondsUntil(
+  timestamp: number | undefined,
+  now: number,
+): number | undefined {
+  return timestamp !== undefined
+    ? Math.max(0, Math.ceil((timestamp - now) / 1000))
+    : undefined;
+}
+
+const getSessionKey = (id: string) => `session:${id}`;
+const getUserKey = (userId: string) => `user:${userId}`;
+
+function createSessionId(): string {
+  return base64urlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function createSession<T = unknown>(
+  requestHeaders: Headers,
+  options: SessionOptions<T>,
+): Promise<Session<T>> {
+  const {
+    name,
+    secret,
+    codec = jsonCodec<T>(),
+    rolling,
+    absoluteMaxAge,
+    onDecodeError,
+    ...cookieOpt
+  } = options;
+  // the clock is also passed on to seal and unseal the cookie
+  const now = options.now ?? Date.now;
+
+  const isExpired = (payload: SessionPayload) => {
+    const timestamp = now();
+    return (
+      (payload.expiresAt !== undefined && payload.expiresAt <= timestamp) ||
+      (absoluteMaxAge !== undefined &&
+        payload.createdAt + absoluteMaxAge * 1000 <= timestamp)
+    );
+  };
+
+  const load = async () => {
+    const payload = await getSealedCookie(requestHeaders, secret, name, {
+      ...cookieOpt,
+      codec: payloadCodec,
+      onDecodeError,
+    });
+    if (payload === false || isExpired(payload)) {
+      return undefined;
+    }
+    const data = decodeCookie(name, payload.data, { codec, onDecodeError });
+    return data && { data: data.value, createdAt: payload.createdAt };
+  };
+
+  const loaded = await load();
+  let data = loaded?.data;
+  let createdAt = loaded?.createdAt ?? now();
+  let state: "unchanged" | "modified" | "regenerated" | "destroyed" =
+    "unchanged";
+
+  const save = async (headers: Headers) => {
+    const expiresAt = getExpiresAt(createdAt, now(), {
+      maxAge: cookieOpt.maxAge,
+      rolling,
+      absoluteMaxAge,
+    });
+    const payload: SessionPayload = {
+      data: codec.encode(data as T),
+      createdAt,
+      expiresAt,
+    };
+    await setSealedCookie(headers, payload, secret, name, {
+      ...cookieOpt,
+      // the cookie expires together with the session
+      maxAge: getSecondsUntil(expiresAt, now()),
+      codec: payloadCodec,
+    });
+  };
+
+  return {
+    isNew: !loaded,
+    get isModified() {
+      return state !== "unchanged";
+    },
+    get: () => data,
+    set: (value) => {
+      data = value;
+      if (state === "unchanged") {
+        state = "modified";
+      }
+    },
+    regenerate: () => {
+      data = undefined;
+      createdAt = now();
+      state = "regenerated";
+    },
+    destroy: () => {
+      data = undefined;
+      createdAt = now();
+      state = "destroyed";
+    },
+    commit: async (headers) => {
+      if (state === "regenerated" || state === "destroyed") {
+        deleteCookie(headers, name, { ...cookieOpt, requestHeaders });
+      }
+      // data set after destroying the session starts a new one
+      if (data !== undefined && (state !== "unchanged" || rolling)) {
+        await save(headers);
+      }
+      state = "unchanged";
+    },
+  };
+}
+
+export async function createStoredSession<T = unknown>(
+  requestHeaders: Headers,
+  options: StoredSessionOptions<T>,
+): Promise<StoredSession<T>> {
+  const {
+    name,
+    storage,
+    codec = jsonCodec<T>(),
+    rolling,
+    absoluteMaxAge,
+    getUserId,
+    onDecodeError,
+    kind,
+    secret,
+    ...cookieOpt
+  } = options;
+  // the clock is also passed on to sign or seal the cookie
+  const now = options.now ?? Date.now;
+
+  const readId = async () =>
+    kind === "sealed"
+      ? getSealedCookie(requestHeaders, secret as SealPassword, name, cookieOpt)
+      : getSignedCookie(
+          requestHeaders,
+          secret as SigningSecret | SigningSecret[],
+          name,
+          cookieOpt,
+        );
+  const writeId = async (headers: Headers, id: string, maxAge?: number) =>
+    kind === "sealed"
+      ? setSealedCookie(headers, id, secret as SealPassword, name, {
+          ...cookieOpt,
+          maxAge,
+        })
+      : setSignedCookie(
+          headers,
+          id,
+          secret as SigningSecret | SigningSecret[],
+          name,
+          { ...cookieOpt, maxAge },
+        );
+
+  // the storage expires sessions that are idle, the absolute lifetime is checked here
+  const isValid = async (payload: SessionPayload) => {
+    const expiresAt = getExpiresAt(payload.createdAt, now(), {
+      maxAge: rolling ? undefined : cookieOpt.maxAge,
+      absoluteMaxAge,
+    });
+    if (expiresAt !== undefined && expiresAt <= now()) {
+      return false;
+    }
+    if (payload.userId === undefined) {
+      return true;
+    }
+    const invalidatedAt = await storage.get(getUserKey(payload.userId));
+    return invalidatedAt === undefined || payload.createdAt >= +invalidatedAt;
+  };
+
+  const load = async () => {
+    const id = await readId();
+    if (!id) {
+      return undefined;
+    }
+    const stored = await storage.get(getSessionKey(id));
+    const payload =
+      stored !== undefined &&
+      decodeCookie(name, stored, { codec: payloadCodec, onDecodeError });
+    if (!payload || !(await isValid(payload.value))) {
+      await storage.delete(getSessionKey(id));
+      return undefined;
+    }
+    const data = decodeCookie(name, payload.value.data, {
+      codec,
+      onDecodeError,
+    });
+    return data && { id, data: data.value, createdAt: payload.value.createdAt };
+  };
+
+  const loaded = await load();
+  let storedId = loaded?.id;
+  let id = loaded?.id ?? createSessionId();
+  let data = loaded?.data;
+  let createdAt = loaded?.createdAt ?? now();
+  let state:
+    | "unchanged"
+    | "modified"
+    | "rotated"
+    | "regenerated"
+    | "destroyed" = "unchanged";
+
+  const save = async (headers: Headers) => {
+    const ttl = getSecondsUntil(
+      getExpiresAt(createdAt, now(), {
+        maxAge: cookieOpt.maxAge,
+        rolling,
+        absoluteMaxAge,
+      }),
+      now(),
+    );
+    if (state === "unchanged") {
+      await storage.touch(getSessionKey(id), ttl);
+    } else {
+      const payload: SessionPayload = {
+        data: codec.encode(data as T),
+        createdAt,
+        userId: getUserId?.(data as T),
+      };
+      await storage.set(getSessionKey(id), payloadCodec.encode(payload), ttl);
+    }
+    // the cookie only changes with the id, or with the expiration of rolling sessions
+    if (id !== storedId || rolling) {
+      await writeId(headers, id, ttl);
+    }
+  };
+
+  return {
+    isNew: !loaded,
+    get id() {
+      return id;
+    },
+    get isModified() {
+      return state !== "unchanged";
+    },
+    get: () => data,
+    set: (value) => {
+      data = value;
+      if (state === "unchanged") {
+        state = "modified";
+      }
+    },
+    rotate: () => {
+      id = createSessionId();
+      if (state === "unchanged" || state === "modified") {
+        state = "rotated";
+      }
+    },
+    regenerate: () => {
+      id = createSessionId();
+      data = undefined;
+      createdAt = now();
+      state = "regenerated";
+    },
+    destroy: () => {
+      id = createSessionId();
+      data = undefined;
+      createdAt = now();
+      state = "destroyed";
+    },
+    commit: async (headers) => {
+      if (storedId !== undefined && storedId !== id) {
+        await storage.delete(getSessionKey(storedId));
+      }
+      if (data === undefined) {
+        if (state === "regenerated" || state === "destroyed") {
+          deleteCookie(headers, name, { ...cookieOpt, requestHeaders });
+        }
+        storedId = undefined;
+      } else if (state !== "unchanged" || rolling) {
+        await save(headers);
+        storedId = id;
+      }
+      state = "unchanged";
+    },
+  };
+}
+
+// invalidates the sessions of a user that were created before now, ttl is in seconds
+export async function invalidateUserSessions(
+  storage: SessionStorage,
+  userId: string,
+  opt?: { ttl?: number; now?: () => number },
+): Promise<void> {
+  const now = opt?.now ?? Date.now;
+  await storage.set(getUserKey(userId), String(now()), opt?.ttl);
+}
@@ -0,0 +1,242 @@
+import { base64urlDecode, base64urlEncode } from "./iron-webcrypto/utils";
+
+export type HmacAlgorithm = "HS256" | "HS384" | "HS512";
+export type SignatureAlgorithm =
+  | HmacAlgorithm
+  | "ES256"
+  | "ES384"
+  | "ES512"
+  | "EdDSA";
+
+// a string or buffer is used as an HMAC secret, a CryptoKey or JWK can be an
+// HMAC secret, an ECDSA or Ed25519 private key to sign, or a public key to verify
+export type SigningSecret = string | BufferSource | CryptoKey | JsonWebKey;
+
+// the parameters are used both to import keys and to sign and verify, the members
+// that do not apply to either are ignored
+const algorithms: Record<
+  SignatureAlgorithm,
+  { name: string; hash?: string; namedCurve?: string }
+> = {
+  HS256: { name: "HMAC", hash: "SHA-256" },
+  HS384: { name: "HMAC", hash: "SHA-384" },
+  HS512: { name: "HMAC", hash: "SHA-512" },
+  ES256: { name: "ECDSA", namedCurve: "P-256", hash: "SHA-256" },
+  ES384: { name: "ECDSA", namedCurve: "P-384", hash: "SHA-384" },
+  ES512: { name: "ECDSA", namedCurve: "P-521", hash: "SHA-512" },
+  EdDSA: { name: "Ed25519" },
+};
+
+const hmacAlgorithmsByHash: Record<string, HmacAlgorithm> = {
+  "SHA-256": "HS256",
+  "SHA-384": "HS384",
+  "SHA-512": "HS512",
+};
+
+const ecdsaAlgorithmsByCurve: Record<string, SignatureAlgorithm> = {
+  "P-256": "ES256",
+  "P-384": "ES384",
+  "P-521": "ES512",
+};
+
+export function isSignatureAlgorithm(
+  algorithm: string,
+): algorithm is SignatureAlgorithm {
+  return Object.hasOwn(algorithms, algorithm);
+}
+
+function isHmacAlgorithm(
+  algorithm: SignatureAlgorithm,
+): algorithm is HmacAlgorithm {
+  return algorithms[algorithm].name === "HMAC";
+}
+
+function isRawSecret(secret: SigningSecret): secret is string | BufferSource {
+  return (
+    typeof secret === "string" ||
+    secret instanceof ArrayBuffer ||
+    ArrayBuffer.isView(secret)
+  );
+}
+
+function getKeyAlgorithm(key: CryptoKey): SignatureAlgorithm | undefined {
+  const { name } = key.algorithm;
+  if (name === "HMAC") {
+    return hmacAlgorithmsByHash[(key.algorithm as HmacKeyAlgorithm).hash.name];
+  }
+  if (name === "ECDSA") {
+    return ecdsaAlgorithmsByCurve[(key.algorithm as EcKeyAlgorithm).namedCurve];
+  }
+  if (name === "Ed25519") {
+    return "EdDSA";
+  }
+  return undefined;
+}
+
+function getJwkAlgorithm(jwk: JsonWebKey): SignatureAlgorithm | undefined {
+  if (jwk.kty === "oct") {
+    const algorithm = jwk.alg ?? "HS256";
+    return isSignatureAlgorithm(algorithm) && isHmacAlgorithm(algorithm)
+      ? algorithm
+      : undefined;
+  }
+  if (jwk.kty === "EC") {
+    return ecdsaAlgorithmsByCurve[jwk.crv ?? ""];
+  }
+  if (jwk.kty === "OKP" && jwk.crv === "Ed25519") {
+    return "EdDSA";
+  }
+  return undefined;
+}
+
+export async function importSigningKey(
+  secret: SigningSecret,
+  hmacAlgorithm: HmacAlgorithm = "HS256",
+): Promise<{ algorithm: SignatureAlgorithm; key: CryptoKey }> {
+  if (isRawSecret(secret)) {
+    const secretBuf =
+      typeof secret === "string" ? new TextEncoder().encode(secret) : secret;
+    const key = await crypto.subtle.importKey(
+      "raw",
+      secretBuf,
+      algorithms[hmacAlgorithm],
+      false,
+      ["sign", "verify"],
+    );
+    return { algorithm: hmacAlgorithm, key };
+  }
+
+  if (secret instanceof CryptoKey) {
+    const algorithm = getKeyAlgorithm(secret);
+    if (!algorithm) {
+      throw new Error(
+        `Unsupported signing key algorithm: ${secret.algorithm.name}`,
+      );
+    }
+    return { algorithm, key: secret };
+  }
+
+  const algorithm = getJwkAlgorithm(secret);
+  if (!algorithm) {
+    throw new Error(`Unsupported signing key type: ${secret.kty}`);
+  }
+  // public keys can only verify and private keys can only sign
+  const usages: KeyUsage[] = isHmacAlgorithm(algorithm)
+    ? ["sign", "verify"]
+    : secret.d
+      ? ["sign"]
+      : ["verify"];
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    secret,
+    algorithms[algorithm],
+    false,
+    usages,
+  );
+  return { algorithm, key };
+}
+
+export async function makeSignature(
+  value: string,
+  algorithm: SignatureAlgorithm,
+  secret: CryptoKey,
+): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(
+    algorithms[algorithm],
+    secret,
+    new TextEncoder().encode(value),
+  );
+  return new Uint8Array(signature);
+}
+
+async function verifySignature(
+  signature: Uint8Array,
+  value: string,
+  algorithm: SignatureAlgorithm,
+  secret: CryptoKey,
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      algorithms[algorithm],
+      secret,
+      signature,
+      new TextEncoder().encode(value),
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+// resolves the key to verify signatures of the given algorithm with, if the
+// secret can verify them. keys are imported once, when first needed
+export type VerificationKey = (
+  algorithm: SignatureAlgorithm,
+) => Promise<CryptoKey | undefined>;
+
+export function getVerificationKey(secret: SigningSecret): VerificationKey {
+  if (isRawSecret(secret)) {
+    const keys = new Map<SignatureAlgorithm, Promise<CryptoKey>>();
+    return async (algorithm) => {
+      if (!isHmacAlgorithm(algorithm)) {
+        return undefined;
+      }
+      if (!keys.has(algorithm)) {
+        keys.set(
+          algorithm,
+          importSigningKey(secret, algorithm).then(({ key }) => key),
+        );
+      }
+      return keys.get(algorithm);
+    };
+  }
+
+  let imported: ReturnType<typeof importSigningKey> | undefined;
+  return async (algorithm) => {
+    imported ??= importSigningKey(secret);
+    const { algorithm: keyAlgorithm, key } = await imported;
+    return keyAlgorithm === algorithm ? key : undefined;
+  };
+}
+
+// returns the index of the secret that verifies the signature, or -1 if none does
+export async function verifySignatureWithSecrets(
+  signature: Uint8Array,
+  value: string,
+  algorithm: SignatureAlgorithm,
+  secrets: VerificationKey[],
+): Promise<number> {
+  for (let i = 0; i < secrets.length; i++) {
+    const key = await secrets[i]!(algorithm);
+    if (key && (await verifySignature(signature, value, algorithm, key))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// signatures of values signed without a header are base64 encoded, and always 44 characters
+// long ending with one or two equal signs. all other signatures are base64url encoded without padding
+export function encodeSignature(
+  signature: Uint8Array,
+  header: boolean,
+): string {
+  return header
+    ? base64urlEncode(signature)
+    : btoa(String.fromCharCode(...signature));
+}
+
+export function decodeSignature(signature: string): Uint8Array | undefined {
+  try {
+    if (signature.length === 44 && signature.endsWith("=")) {
+      const signatureBinStr = atob(signature);
+      const bytes = new Uint8Array(signatureBinStr.length);
+      for (let i = 0, len = signatureBinStr.length; i < len; i++) {
+        bytes[i] = signatureBinStr.charCodeAt(i);
+      }
+      return bytes;
+    }
+    return base64urlDecode(signature);
+  } catch (e) {
+    return undefined;
+  }
+}
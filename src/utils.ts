@@ -1,12 +1,82 @@
-import { seal, unseal } from "./iron-webcrypto/iron-webcrypto";
+import { CookieError } from "./errors";
+import {
+  bindAssociatedData,
+  createKeyCache,
+  seal,
+  unseal,
+  validatePassword,
+} from "./iron-webcrypto/iron-webcrypto";
+import type {
+  KeyCache,
+  KeyDerivationOptions,
+  Password,
+  PasswordKeyring,
+  SealOptions,
+  SealPassword,
+  UnsealOptions,
+  Unsealed,
+} from "./iron-webcrypto/types";
+import {
+  HmacAlgorithm,
+  SignatureAlgorithm,
+  SigningSecret,
+  decodeSignature,
+  encodeSignature,
+  VerificationKey,
+  getVerificationKey,
+  importSigningKey,
+  isSignatureAlgorithm,
+  makeSignature,
+  verifySignatureWithSecrets,
+} from "./signature";
+
+export { createKeyCache };
+export type {
+  KeyCache,
+  KeyDerivationOptions,
+  Password,
+  PasswordKeyring,
+  SealOptions,
+  SealPassword,
+  UnsealOptions,
+  Unsealed,
+};
+export type { HmacAlgorithm, SignatureAlgorithm, SigningSecret };
 
 export type Cookie = Record<string, string>;
 export type MaybeCookie = string | false;
 
+export type Verified = {
+  value: string;
+  // index of the secret the signature was verified with
+  secretIndex: number;
+  // whether the value was signed with another secret than the first one, or without being
+  // bound to the cookie name, meaning it should be signed again
+  stale: boolean;
+  // issue and expiration times in seconds since the epoch, if signed with a ttl
+  issuedAt?: number;
+  expiresAt?: number;
+};
+
 type PartitionCookieConstraint =
   | { partition: true; secure: true }
   | { partition?: boolean; secure?: boolean }; // reset to default
 
+export type CookiePrefix = "host" | "secure";
+
+// browsers reject cookies with a __Secure- prefix that are not secure, and cookies with
+// a __Host- prefix that are not secure, have a domain or another path than /
+// (see: https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-4.1.3)
+type PrefixCookieConstraint =
+  | { prefix: "host"; secure: true; domain?: undefined; path?: "/" }
+  | { prefix: "secure"; secure: true }
+  | { prefix?: undefined };
+
+export type CookiePrefixOptions = {
+  // reads the cookie with the __Host- or __Secure- prefix added to its name
+  prefix?: CookiePrefix;
+};
+
 export type CookieOptions = {
   domain?: string;
   expires?: Date;
@@ -17,55 +87,171 @@ export type CookieOptions = {
   signingSecret?: string;
   sameSite?: "Strict" | "Lax" | "None";
   partitioned?: boolean;
-} & PartitionCookieConstraint;
-
-const algorithm = { name: "HMAC", hash: "SHA-256" };
+  // split cookies longer than maxSize (4000 by default) into name.0, name.1, … cookies
+  chunk?: boolean | { maxSize?: number };
+  // lets Chrome evict cookies with a lower priority first
+  priority?: "Low" | "Medium" | "High";
+  // other attributes by name, true for attributes without a value
+  extensions?: Record<string, string | true>;
+  // encodes cookie values, defaults to encodeURIComponent
+  encode?: (value: string) => string;
+  // validates the cookie and caps its lifetime at 400 days, defaults to true
+  strict?: boolean;
+} & PartitionCookieConstraint &
+  PrefixCookieConstraint;
+
+export type DeleteCookieOptions = CookieOptions & {
+  // the headers of the request, to delete every chunk of the cookie it was sent with
+  requestHeaders?: Headers;
+};
+
+export type SetCookie = CookieOptions & {
+  name: string;
+  value: string;
+};
+
+export type SignOptions = {
+  // time-to-live of the signed value in seconds, signed along with the value
+  ttl?: number;
+  // the HMAC algorithm used with string and buffer secrets, defaults to HS256
+  algorithm?: HmacAlgorithm;
+  now?: () => number;
+};
+
+// which value of a cookie sent more than once to read: the first or the last one, the first
+// valid one, or none, since duplicates can be planted by another site (cookie tossing)
+export type DuplicatePolicy = "first" | "last" | "any-valid" | "reject";
+
+export type DuplicateCookieOptions = {
+  // defaults to last
+  duplicates?: DuplicatePolicy;
+};
+
+// signed and sealed values are bound to the name of their cookie and the purpose, which
+// have to match when they are read, so that values cannot be moved to other cookies
+export type BindOptions = {
+  purpose?: string;
+};
+
+export type SignBindOptions = BindOptions & {
+  // leaves values unbound, for readers that do not bind them such as other iron implementations
+  unbound?: boolean;
+};
+
+export type VerifyBindOptions = BindOptions & {
+  // also accepts values signed or sealed before they were bound, which are stale
+  allowUnbound?: boolean;
+};
+
+export type VerifyOptions = {
+  // seconds a signed or sealed value is still accepted after it expired, defaults to 60
+  clockTolerance?: number;
+  now?: () => number;
+};
+
+export type ParseOptions = {
+  // decodes cookie values, defaults to decodeURIComponent
+  decode?: (value: string) => string;
+  // called for cookies whose value cannot be decoded, which are skipped
+  onDecodeError?: (error: unknown, name: string) => void;
+  // joins chunked cookies when every cookie is read, a named cookie is only joined from
+  // its chunks when it is not sent itself
+  chunk?: boolean | { maxSize?: number };
+};
+
+export type GetCookieOptions = CookiePrefixOptions & ParseOptions;
+export type GetSignedCookieOptions = GetCookieOptions &
+  VerifyOptions &
+  VerifyBindOptions &
+  DuplicateCookieOptions;
+export type GetSealedCookieOptions = GetCookieOptions &
+  UnsealOptions &
+  VerifyBindOptions &
+  DuplicateCookieOptions;
+
+export type SignedCookieOptions = CookieOptions & SignOptions & SignBindOptions;
+export type SealedCookieOptions = CookieOptions & SealOptions & SignBindOptions;
+
+export type CookieKind = "plain" | "signed" | "sealed";
+
+// the options of a defined cookie apply both when it is set and read
+export type CookieDefinitionOptions = { name: string } & (
+  | { kind: "plain"; options?: CookieOptions & GetCookieOptions }
+  | {
+      kind: "signed";
+      secret: SigningSecret | SigningSecret[];
+      options?: SignedCookieOptions & GetSignedCookieOptions;
+    }
+  | {
+      kind: "sealed";
+      secret: SealPassword;
+      options?: SealedCookieOptions & GetSealedCookieOptions;
+    }
+);
+
+export type CookieDefinition<T> = {
+  name: string;
+  kind: CookieKind;
+  // resolves to undefined when the cookie is missing, invalid or cannot be decoded
+  get: (headers: Headers) => Promise<T | undefined>;
+  set: (headers: Headers, value: T) => Promise<void>;
+  delete: (headers: Headers, opt?: { requestHeaders?: Headers }) => void;
+};
+
+// values are always signed with the first secret, the others are only used to verify them
+export function getSigningSecret(
+  secret: SigningSecret | SigningSecret[],
+): SigningSecret {
+  const signingSecret = Array.isArray(secret) ? secret[0] : secret;
+  if (signingSecret === undefined) {
+    throw new Error("Missing signing secret");
+  }
+  return signingSecret;
+}
 
-async function getCryptoKey(secret: string | BufferSource): Promise<CryptoKey> {
-  const secretBuf =
-    typeof secret === "string" ? new TextEncoder().encode(secret) : secret;
-  return await crypto.subtle.importKey("raw", secretBuf, algorithm, false, [
-    "sign",
-    "verify",
-  ]);
+// the name includes the cookie prefix, and is the base name of chunked cookies
+function getAssociatedData(name: string, opt: BindOptions): string {
+  return JSON.stringify([name, opt.purpose ?? null]);
 }
 
-async function makeSignature(
-  value: string,
-  secret: string | BufferSource,
-): Promise<string> {
-  const key = await getCryptoKey(secret);
-  const signature = await crypto.subtle.sign(
-    algorithm.name,
-    key,
-    new TextEncoder().encode(value),
-  );
-  // the returned base64 encoded signature will always be 44 characters long and end with one or two equal signs
-  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+function getSigningAssociatedData(
+  name: string,
+  opt: CookiePrefixOptions & SignBindOptions,
+): string | undefined {
+  return opt.unbound
+    ? undefined
+    : getAssociatedData(prefixCookieName(name, opt.prefix), opt);
 }
 
-async function verifySignature(
-  base64Signature: string,
-  value: string,
-  secret: CryptoKey,
-): Promise<boolean> {
-  try {
-    const signatureBinStr = atob(base64Signature);
-    const signature = new Uint8Array(signatureBinStr.length);
-    for (let i = 0, len = signatureBinStr.length; i < len; i++) {
-      signature[i] = signatureBinStr.charCodeAt(i);
-    }
-    return await crypto.subtle.verify(
-      algorithm,
-      secret,
-      signature,
-      new TextEncoder().encode(value),
-    );
-  } catch (e) {
-    return false;
+// the header of signed values records the signature algorithm, omitted for HS256,
+// and the issue and expiration times of values signed with a ttl: [alg~][iat~exp]
+type SignedHeader = {
+  algorithm: SignatureAlgorithm;
+  issuedAt?: number;
+  expiresAt?: number;
+};
+
+function parseSignedHeader(header: string): SignedHeader | undefined {
+  const parts = header.split("~");
+  const algorithm = parts.length % 2 ? parts.shift()! : "HS256";
+  if (!isSignatureAlgorithm(algorithm)) {
+    return undefined;
+  }
+  if (!parts.length) {
+    return { algorithm };
   }
+  if (parts.length !== 2 || !parts.every((part) => /^\d+$/.test(part))) {
+    return undefined;
+  }
+  return {
+    algorithm,
+    issuedAt: Number(parts[0]),
+    expiresAt: Number(parts[1]),
+  };
 }
 
+const defaultClockTolerance = 60;
+
 // all alphanumeric chars and all of _!#$%&'*.^`|~+-
 // (see: https://datatracker.ietf.org/doc/html/rfc6265#section-4.1.1)
 const validCookieNameRegEx = /^[\w!#$%&'*.^`|~+-]+$/;
@@ -77,89 +263,506 @@ const validCookieNameRegEx = /^[\w!#$%&'*.^`|~+-]+$/;
 // (see: https://github.com/golang/go/issues/7243)
 const validCookieValueRegEx = /^[ !#-:<-[\]-~]*$/;
 
-export function parse(cookie: string, name?: string): Cookie {
+// labels of letters, digits and hyphens, with an optional leading dot
+// (see: https://datatracker.ietf.org/doc/html/rfc1034#section-3.5)
+const validDomainRegEx =
+  /^\.?[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+// all ASCII chars 32-126 except 59 (i.e. space to tilde but not semicolon)
+// (see: https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-4.1.1)
+const validPathRegEx = /^[ -:<-~]*$/;
+
+// extensions cannot set the attributes kukkii writes
+const knownAttributes = new Set([
+  "max-age",
+  "domain",
+  "path",
+  "expires",
+  "httponly",
+  "secure",
+  "samesite",
+  "partitioned",
+  "priority",
+]);
+
+// browsers cap the lifetime of cookies at 400 days
+// (see: https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-5.5)
+const maxCookieAgeSec = 400 * 24 * 60 * 60;
+
+// chunks of a cookie are named after it, followed by a dot and their index
+const chunkNameRegEx = /^(.+)\.(\d+)$/;
+
+const defaultChunkMaxSize = 4000;
+
+const cookiePrefixes: Record<CookiePrefix, string> = {
+  host: "__Host-",
+  secure: "__Secure-",
+};
+
+export function prefixCookieName(name: string, prefix?: CookiePrefix): string {
+  return prefix ? `${cookiePrefixes[prefix]}${name}` : name;
+}
+
+// keeps the cookies with the prefix, without it
+export function unprefixCookies<T>(
+  cookies: Record<string, T>,
+  prefix?: CookiePrefix,
+): Record<string, T> {
+  if (!prefix) {
+    return cookies;
+  }
+  const unprefixedCookies: Record<string, T> = {};
+  for (const [name, value] of Object.entries(cookies)) {
+    if (name.startsWith(cookiePrefixes[prefix])) {
+      unprefixedCookies[name.substring(cookiePrefixes[prefix].length)] = value;
+    }
+  }
+  return unprefixedCookies;
+}
+
+// prefixes are matched case-insensitively by browsers
+function assertCookiePrefix(name: string, opt: CookieOptions): void {
+  const lowerCaseName = name.toLowerCase();
+  if (
+    (lowerCaseName.startsWith("__secure-") ||
+      lowerCaseName.startsWith("__host-")) &&
+    !opt.secure
+  ) {
+    throw new CookieError("invalid_prefix", `Cookie ${name} must be secure`);
+  }
+  if (lowerCaseName.startsWith("__host-") && (opt.domain || opt.path !== "/")) {
+    throw new CookieError(
+      "invalid_prefix",
+      `Cookie ${name} must have path / and no domain`,
+    );
+  }
+}
+
+export function getChunkBaseName(name: string): string | undefined {
+  return chunkNameRegEx.exec(name)?.[1];
+}
+
+export function parse(
+  cookie: string,
+  name?: string,
+  opt: ParseOptions = {},
+): Cookie {
+  const parsedCookie: Cookie = {};
+  // chunks are joined before decoding, so that they can be split anywhere
+  const rawCookie = joinChunks(lastValues(parseRaw(cookie, name)), name, opt);
+  for (const [cookieName, value] of Object.entries(rawCookie)) {
+    const decoded = decodeValue(cookieName, value, opt);
+    if (decoded !== undefined) {
+      parsedCookie[cookieName] = decoded;
+    }
+  }
+  return parsedCookie;
+}
+
+// parses cookies without joining chunks, the chunks of the named cookie are included
+export function parseChunks(
+  cookie: string,
+  name?: string,
+  opt: ParseOptions = {},
+): Cookie {
+  return lastValues(parseAll(cookie, name, opt));
+}
+
+// parses every value of cookies sent more than once, in header order
+export function parseAll(
+  cookie: string,
+  name?: string,
+  opt: ParseOptions = {},
+): Record<string, string[]> {
+  const parsedCookie: Record<string, string[]> = {};
+  for (const [cookieName, values] of Object.entries(parseRaw(cookie, name))) {
+    const decodedValues = values
+      .map((value) => decodeValue(cookieName, value, opt))
+      .filter((value): value is string => value !== undefined);
+    if (decodedValues.length) {
+      parsedCookie[cookieName] = decodedValues;
+    }
+  }
+  return parsedCookie;
+}
+
+function parseRaw(cookie: string, name?: string): Record<string, string[]> {
   const pairs = cookie.trim().split(";");
-  return pairs.reduce((parsedCookie, pairStr) => {
-    pairStr = pairStr.trim();
-    const valueStartPos = pairStr.indexOf("=");
-    if (valueStartPos === -1) {
+  return pairs.reduce(
+    (parsedCookie, pairStr) => {
+      pairStr = pairStr.trim();
+      const valueStartPos = pairStr.indexOf("=");
+      if (valueStartPos === -1) {
+        return parsedCookie;
+      }
+
+      const cookieName = pairStr.substring(0, valueStartPos).trim();
+      if (
+        (name &&
+          name !== cookieName &&
+          name !== getChunkBaseName(cookieName)) ||
+        !validCookieNameRegEx.test(cookieName)
+      ) {
+        return parsedCookie;
+      }
+
+      let cookieValue = pairStr.substring(valueStartPos + 1).trim();
+      if (cookieValue.startsWith('"') && cookieValue.endsWith('"')) {
+        cookieValue = cookieValue.slice(1, -1);
+      }
+      if (validCookieValueRegEx.test(cookieValue)) {
+        (parsedCookie[cookieName] ??= []).push(cookieValue);
+      }
+
       return parsedCookie;
+    },
+    {} as Record<string, string[]>,
+  );
+}
+
+function lastValues(cookies: Record<string, string[]>): Cookie {
+  const lastCookie: Cookie = {};
+  for (const [name, values] of Object.entries(cookies)) {
+    lastCookie[name] = values[values.length - 1]!;
+  }
+  return lastCookie;
+}
+
+// skips values that cannot be decoded, such as malformed percent-encoding set by
+// another app on the domain, instead of failing to parse every cookie
+function decodeValue(
+  name: string,
+  value: string,
+  opt: ParseOptions,
+): string | undefined {
+  try {
+    return (opt.decode ?? decodeURIComponent)(value);
+  } catch (e) {
+    opt.onDecodeError?.(e, name);
+    return undefined;
+  }
+}
+
+// every value of each cookie, chunked cookies are joined from their last chunks
+function parseCandidates(
+  cookie: string,
+  name?: string,
+  opt: ParseOptions = {},
+): Record<string, string[]> {
+  const rawValues = parseRaw(cookie, name);
+  const rawCookie = joinChunks(lastValues(rawValues), name, opt);
+  const candidates: Record<string, string[]> = {};
+  for (const [cookieName, value] of Object.entries(rawCookie)) {
+    const values = (rawValues[cookieName] ?? [value])
+      .map((value) => decodeValue(cookieName, value, opt))
+      .filter((value): value is string => value !== undefined);
+    if (values.length) {
+      candidates[cookieName] = values;
     }
+  }
+  return candidates;
+}
 
-    const cookieName = pairStr.substring(0, valueStartPos).trim();
+// picks the value of a cookie sent more than once to read according to the policy. read
+// resolves to false for values that are not valid, and undefined for values it ignores
+async function readDuplicates<T>(
+  values: string[],
+  policy: DuplicatePolicy = "last",
+  read: (value: string) => Promise<T | false | undefined>,
+): Promise<T | false | undefined> {
+  switch (policy) {
+    case "first":
+      return read(values[0]!);
+    case "last":
+      return read(values[values.length - 1]!);
+    case "reject":
+      return new Set(values).size > 1 ? false : read(values[0]!);
+    case "any-valid": {
+      const results = await Promise.all(values.map(read));
+      return (
+        results.find((result) => result) ??
+        results.find((result) => result !== undefined)
+      );
+    }
+  }
+}
+
+// joins the consecutive chunks of cookies from name.0, unless the cookie itself is
+// present. chunks of cookies that are neither present nor start at name.0 are kept, and
+// every cookie is only joined with the chunk option, so that names like x.0 can be read
+function joinChunks(
+  cookies: Cookie,
+  name: string | undefined,
+  opt: ParseOptions,
+): Cookie {
+  if (name !== undefined) {
+    if (name in cookies) {
+      return { [name]: cookies[name]! };
+    }
+    const joinedValue = joinChunkValues(cookies, name);
+    return joinedValue !== undefined ? { [name]: joinedValue } : {};
+  }
+  if (!opt.chunk) {
+    return cookies;
+  }
+  const joinedCookie: Cookie = {};
+  for (const [name, value] of Object.entries(cookies)) {
+    const baseName = getChunkBaseName(name);
     if (
-      (name && name !== cookieName) ||
-      !validCookieNameRegEx.test(cookieName)
+      baseName === undefined ||
+      !(baseName in cookies || `${baseName}.0` in cookies)
     ) {
-      return parsedCookie;
+      joinedCookie[name] = value;
+    } else if (!(baseName in cookies) && !(baseName in joinedCookie)) {
+      joinedCookie[baseName] = joinChunkValues(cookies, baseName)!;
     }
+  }
+  return joinedCookie;
+}
+
+function joinChunkValues(cookies: Cookie, name: string): string | undefined {
+  if (!(`${name}.0` in cookies)) {
+    return undefined;
+  }
+  let joinedValue = "";
+  for (let i = 0; `${name}.${i}` in cookies; i++) {
+    joinedValue += cookies[`${name}.${i}`];
+  }
+  return joinedValue;
+}
+
+// resolves to undefined for values that are not signed at all
+async function verifySigned(
+  name: string,
+  value: string,
+  verificationKeys: VerificationKey[],
+  opt: VerifyOptions & VerifyBindOptions,
+): Promise<Verified | false | undefined> {
+  const signatureStartPos = value.lastIndexOf(".");
+  if (signatureStartPos < 1) {
+    return undefined;
+  }
+
+  const signedValue = value.substring(0, signatureStartPos);
+  const signature = value.substring(signatureStartPos + 1);
 
-    let cookieValue = pairStr.substring(valueStartPos + 1).trim();
-    if (cookieValue.startsWith('"') && cookieValue.endsWith('"')) {
-      cookieValue = cookieValue.slice(1, -1);
+  let cookieValue = signedValue;
+  let header: SignedHeader = { algorithm: "HS256" };
+  if (signature.length !== 44 || !signature.endsWith("=")) {
+    const headerStartPos = signedValue.lastIndexOf(".");
+    const parsedHeader = parseSignedHeader(
+      signedValue.substring(headerStartPos + 1),
+    );
+    if (headerStartPos < 1 || !parsedHeader) {
+      return undefined;
     }
-    if (validCookieValueRegEx.test(cookieValue)) {
-      parsedCookie[cookieName] = decodeURIComponent(cookieValue);
+    cookieValue = signedValue.substring(0, headerStartPos);
+    header = parsedHeader;
+  }
+
+  const signatureBytes = decodeSignature(signature);
+  const verify = (data: string) =>
+    signatureBytes
+      ? verifySignatureWithSecrets(
+          signatureBytes,
+          data,
+          header.algorithm,
+          verificationKeys,
+        )
+      : Promise.resolve(-1);
+  let secretIndex = await verify(
+    bindAssociatedData(signedValue, getAssociatedData(name, opt)),
+  );
+  const unbound = secretIndex === -1 && !!opt.allowUnbound;
+  if (unbound) {
+    secretIndex = await verify(signedValue);
+  }
+  const { issuedAt, expiresAt } = header;
+  const now = opt.now?.() ?? Date.now();
+  const clockTolerance = opt.clockTolerance ?? defaultClockTolerance;
+  const isExpired =
+    expiresAt !== undefined && expiresAt * 1000 <= now - clockTolerance * 1000;
+  return secretIndex === -1 || isExpired
+    ? false
+    : {
+        value: cookieValue,
+        secretIndex,
+        stale: secretIndex > 0 || unbound,
+        ...(expiresAt !== undefined && { issuedAt, expiresAt }),
+      };
+}
+
+export async function parseSignedWithInfo(
+  cookie: string,
+  secret: SigningSecret | SigningSecret[],
+  name?: string,
+  opt: GetSignedCookieOptions = {},
+): Promise<Record<string, Verified | false>> {
+  const parsedCookie: Record<string, Verified | false> = {};
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  const verificationKeys = secrets.map(getVerificationKey);
+
+  // verify all cookies concurrently
+  const entries = Object.entries(parseCandidates(cookie, name, opt));
+  const verified = await Promise.all(
+    entries.map(([key, values]) =>
+      readDuplicates(values, opt.duplicates, (value) =>
+        verifySigned(key, value, verificationKeys, opt),
+      ),
+    ),
+  );
+  entries.forEach(([key], i) => {
+    if (verified[i] !== undefined) {
+      parsedCookie[key] = verified[i]!;
     }
+  });
 
-    return parsedCookie;
-  }, {} as Cookie);
+  return parsedCookie;
 }
 
 export async function parseSigned(
   cookie: string,
-  secret: string | BufferSource,
+  secret: SigningSecret | SigningSecret[],
   name?: string,
+  opt: GetSignedCookieOptions = {},
 ): Promise<Record<string, MaybeCookie>> {
   const parsedCookie: Record<string, MaybeCookie> = {};
-  const secretKey = await getCryptoKey(secret);
 
-  for (const [key, value] of Object.entries(parse(cookie, name))) {
-    const signatureStartPos = value.lastIndexOf(".");
-    if (signatureStartPos < 1) {
-      continue;
-    }
+  const verified = await parseSignedWithInfo(cookie, secret, name, opt);
+  for (const [key, value] of Object.entries(verified)) {
+    parsedCookie[key] = value && value.value;
+  }
 
-    const signedValue = value.substring(0, signatureStartPos);
-    const signature = value.substring(signatureStartPos + 1);
-    if (signature.length !== 44 || !signature.endsWith("=")) {
-      continue;
-    }
+  return parsedCookie;
+}
 
-    const isVerified = await verifySignature(signature, signedValue, secretKey);
-    parsedCookie[key] = isVerified ? signedValue : false;
+async function unsealBound(
+  name: string,
+  value: string,
+  secret: SealPassword,
+  opt: GetSealedCookieOptions,
+): Promise<Unsealed> {
+  try {
+    return await unseal(value, secret, {
+      ...opt,
+      associatedData: getAssociatedData(name, opt),
+    });
+  } catch (e) {
+    if (!opt.allowUnbound) {
+      throw e;
+    }
+    const unsealed = await unseal(value, secret, {
+      ...opt,
+      associatedData: undefined,
+    });
+    return { ...unsealed, stale: true };
   }
+}
+
+export async function parseSealedWithInfo(
+  cookie: string,
+  secret: SealPassword,
+  name?: string,
+  opt: GetSealedCookieOptions = {},
+): Promise<Record<string, Unsealed | false>> {
+  const parsedCookie: Record<string, Unsealed | false> = {};
+  // throw on configuration errors instead of rejecting every cookie
+  validatePassword(secret, opt.minPasswordLength);
+
+  // unseal all cookies concurrently, values that are not sealed are ignored
+  const entries = Object.entries(parseCandidates(cookie, name, opt));
+  const unsealed = await Promise.all(
+    entries.map(([key, values]) =>
+      readDuplicates(values, opt.duplicates, async (value) =>
+        value.includes("*")
+          ? unsealBound(key, value, secret, opt).catch(() => false as false)
+          : undefined,
+      ),
+    ),
+  );
+  entries.forEach(([key], i) => {
+    if (unsealed[i] !== undefined) {
+      parsedCookie[key] = unsealed[i]!;
+    }
+  });
 
   return parsedCookie;
 }
 
 export async function parseSealed(
   cookie: string,
-  secret: string,
+  secret: SealPassword,
   name?: string,
+  opt: GetSealedCookieOptions = {},
 ): Promise<Record<string, MaybeCookie>> {
   const parsedCookie: Record<string, MaybeCookie> = {};
 
-  for (const [key, value] of Object.entries(parse(cookie, name))) {
-    if (!value.includes("*")) {
-      continue;
-    }
-
-    const decrypted = await unseal(value, secret).catch(() => false as false);
-    parsedCookie[key] = decrypted;
+  const unsealed = await parseSealedWithInfo(cookie, secret, name, opt);
+  for (const [key, value] of Object.entries(unsealed)) {
+    parsedCookie[key] = value && value.value;
   }
 
   return parsedCookie;
 }
+
+function assertCookie(name: string, value: string, opt: CookieOptions): void {
+  if (!validCookieNameRegEx.test(name)) {
+    throw new CookieError("invalid_name", `Invalid cookie name: ${name}`);
+  }
+  if (!validCookieValueRegEx.test(value)) {
+    throw new CookieError("invalid_value", `Invalid value for cookie ${name}`);
+  }
+  if (opt.domain && !validDomainRegEx.test(opt.domain)) {
+    throw new CookieError(
+      "invalid_domain",
+      `Invalid domain for cookie ${name}: ${opt.domain}`,
+    );
+  }
+  if (opt.path && !validPathRegEx.test(opt.path)) {
+    throw new CookieError(
+      "invalid_path",
+      `Invalid path for cookie ${name}: ${opt.path}`,
+    );
+  }
+  for (const [attributeName, attributeValue] of Object.entries(
+    opt.extensions ?? {},
+  )) {
+    if (
+      // attribute names are tokens, like cookie names
+      !validCookieNameRegEx.test(attributeName) ||
+      knownAttributes.has(attributeName.toLowerCase()) ||
+      (attributeValue !== true && !validPathRegEx.test(attributeValue))
+    ) {
+      throw new CookieError(
+        "invalid_extension",
+        `Invalid attribute for cookie ${name}: ${attributeName}`,
+      );
+    }
+  }
+  if (opt.sameSite === "None" && !opt.secure) {
+    throw new CookieError(
+      "insecure_same_site_none",
+      `Cookie ${name} with SameSite=None must be secure`,
+    );
+  }
+}
+
 function _serialize(
   name: string,
   value: string,
   opt: CookieOptions = {},
 ): string {
+  name = prefixCookieName(name, opt.prefix);
+  assertCookiePrefix(name, opt);
+  const strict = opt.strict !== false;
+  if (strict) {
+    assertCookie(name, value, opt);
+  }
   let cookie = `${name}=${value}`;
 
   if (opt && typeof opt.maxAge === "number" && opt.maxAge >= 0) {
-    cookie += `; Max-Age=${Math.floor(opt.maxAge)}`;
+    const maxAge = strict ? Math.min(opt.maxAge, maxCookieAgeSec) : opt.maxAge;
+    cookie += `; Max-Age=${Math.floor(maxAge)}`;
   }
 
   if (opt.domain) {
@@ -171,7 +774,12 @@ function _serialize(
   }
 
   if (opt.expires) {
-    cookie += `; Expires=${opt.expires.toUTCString()}`;
+    const maxExpires = Date.now() + maxCookieAgeSec * 1000;
+    const expires =
+      strict && opt.expires.getTime() > maxExpires
+        ? new Date(maxExpires)
+        : opt.expires;
+    cookie += `; Expires=${expires.toUTCString()}`;
   }
 
   if (opt.httpOnly) {
@@ -190,37 +798,214 @@ function _serialize(
     cookie += "; Partitioned";
   }
 
+  if (opt.priority) {
+    cookie += `; Priority=${opt.priority}`;
+  }
+
+  for (const [name, value] of Object.entries(opt.extensions ?? {})) {
+    cookie += value === true ? `; ${name}` : `; ${name}=${value}`;
+  }
+
   return cookie;
 }
 
+// splits a serialized cookie into chunks when it is too long, the cookie itself is
+// deleted along with the first chunk after the last one, which leaves out the
+// leftover chunks of a longer value. cookies that are short enough delete the first chunk
+export function chunkCookie(cookie: string, opt: CookieOptions = {}): string[] {
+  const maxSize =
+    (typeof opt.chunk === "object" && opt.chunk.maxSize) || defaultChunkMaxSize;
+  const pairEndPos = cookie.includes(";") ? cookie.indexOf(";") : cookie.length;
+  const pair = cookie.substring(0, pairEndPos);
+  const attributes = cookie.substring(pairEndPos);
+  const valueStartPos = pair.indexOf("=");
+  const name = pair.substring(0, valueStartPos);
+  // the name is already prefixed
+  const deleteCookie = (name: string) =>
+    _serialize(name, "", { ...opt, prefix: undefined, maxAge: 0 });
+
+  if (pair.length <= maxSize) {
+    return [cookie, deleteCookie(`${name}.0`)];
+  }
+
+  // chunks are joined before they are decoded, so values can be split anywhere
+  const value = pair.substring(valueStartPos + 1);
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; ) {
+    const chunkSize = Math.max(maxSize - `${name}.${chunks.length}=`.length, 1);
+    chunks.push(value.substring(i, i + chunkSize));
+    i += chunkSize;
+  }
+
+  return [
+    ...chunks.map((chunk, i) => `${name}.${i}=${chunk}${attributes}`),
+    deleteCookie(`${name}.${chunks.length}`),
+    deleteCookie(name),
+  ];
+}
+
 export function serialize(
   name: string,
   value: string,
   opt: CookieOptions = {},
 ): string {
-  value = encodeURIComponent(value);
+  value = (opt.encode ?? encodeURIComponent)(value);
   return _serialize(name, value, opt);
 }
 
 export async function serializeSigned(
   name: string,
   value: string,
-  secret: string | BufferSource,
-  opt: CookieOptions = {},
+  secret: SigningSecret | SigningSecret[],
+  opt: SignedCookieOptions = {},
 ): Promise<string> {
-  const signature = await makeSignature(value, secret);
-  value = `${value}.${signature}`;
-  value = encodeURIComponent(value);
+  const signingSecret = getSigningSecret(secret);
+  const headerParts: string[] = [];
+  if (typeof opt.ttl === "number") {
+    const now = Math.floor((opt.now?.() ?? Date.now()) / 1000);
+    headerParts.push(`${now}~${now + Math.floor(opt.ttl)}`);
+  }
+  // HS256 is implied, other algorithms are recorded in the header
+  const { algorithm, key } = await importSigningKey(
+    signingSecret,
+    opt.algorithm,
+  );
+  if (algorithm !== "HS256") {
+    headerParts.unshift(algorithm);
+  }
+  if (headerParts.length) {
+    value = `${value}.${headerParts.join("~")}`;
+  }
+  const signature = await makeSignature(
+    bindAssociatedData(value, getSigningAssociatedData(name, opt)),
+    algorithm,
+    key,
+  );
+  value = `${value}.${encodeSignature(signature, headerParts.length > 0)}`;
+  value = (opt.encode ?? encodeURIComponent)(value);
   return _serialize(name, value, opt);
 }
 
 export async function serializeSealed(
   name: string,
   value: string,
-  secret: string,
-  opt: CookieOptions = {},
+  secret: SealPassword,
+  opt: SealedCookieOptions = {},
 ): Promise<string> {
-  value = await seal(value, secret);
-  value = encodeURIComponent(value);
+  value = await seal(value, secret, {
+    ...opt,
+    associatedData: getSigningAssociatedData(name, opt),
+  });
+  value = (opt.encode ?? encodeURIComponent)(value);
   return _serialize(name, value, opt);
 }
+
+const sameSiteValues: Record<string, CookieOptions["sameSite"]> = {
+  strict: "Strict",
+  lax: "Lax",
+  none: "None",
+};
+
+const priorityValues: Record<string, CookieOptions["priority"]> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+function decodeSetCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+// parses a Set-Cookie header, as returned by headers.getSetCookie(). attribute names are
+// case-insensitive and later attributes override earlier ones, invalid attribute values are ignored
+// (see: https://datatracker.ietf.org/doc/html/rfc6265#section-5.2)
+export function parseSetCookie(setCookie: string): SetCookie | undefined {
+  const [pairStr, ...attributes] = setCookie.split(";");
+  const valueStartPos = pairStr!.indexOf("=");
+  if (valueStartPos === -1) {
+    return undefined;
+  }
+  const name = pairStr!.substring(0, valueStartPos).trim();
+  if (!validCookieNameRegEx.test(name)) {
+    return undefined;
+  }
+  let value = pairStr!.substring(valueStartPos + 1).trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+
+  const parsed: SetCookie = { name, value: decodeSetCookieValue(value) };
+  for (const attribute of attributes) {
+    const attributeValueStartPos = attribute.indexOf("=");
+    const attributeName = (
+      attributeValueStartPos === -1
+        ? attribute
+        : attribute.substring(0, attributeValueStartPos)
+    ).trim();
+    const attributeValue =
+      attributeValueStartPos === -1
+        ? undefined
+        : attribute.substring(attributeValueStartPos + 1).trim();
+
+    switch (attributeName.toLowerCase()) {
+      case "":
+        break;
+      case "max-age":
+        if (attributeValue && /^-?\d+$/.test(attributeValue)) {
+          parsed.maxAge = Number(attributeValue);
+        }
+        break;
+      case "expires": {
+        const expires = new Date(attributeValue ?? "");
+        if (!Number.isNaN(expires.getTime())) {
+          parsed.expires = expires;
+        }
+        break;
+      }
+      case "domain":
+        if (attributeValue) {
+          parsed.domain = attributeValue;
+        }
+        break;
+      case "path":
+        if (attributeValue?.startsWith("/")) {
+          parsed.path = attributeValue;
+        }
+        break;
+      case "httponly":
+        parsed.httpOnly = true;
+        break;
+      case "secure":
+        parsed.secure = true;
+        break;
+      case "samesite": {
+        const sameSite = sameSiteValues[attributeValue?.toLowerCase() ?? ""];
+        if (sameSite) {
+          parsed.sameSite = sameSite;
+        }
+        break;
+      }
+      case "partitioned":
+        parsed.partitioned = true;
+        break;
+      case "priority": {
+        const priority = priorityValues[attributeValue?.toLowerCase() ?? ""];
+        if (priority) {
+          parsed.priority = priority;
+        }
+        break;
+      }
+      default:
+        parsed.extensions = {
+          ...parsed.extensions,
+          [attributeName]: attributeValue ?? true,
+        };
+    }
+  }
+
+  return parsed;
+}